@@ -1,10 +1,70 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import WindTunnel from './components/WindTunnel';
 import AnalysisPanel from './components/AnalysisPanel';
-import { ShapeType, SimulationParams, AnalysisResult, Point } from './types';
+import {
+  ShapeType, SimulationParams, AnalysisResult, Point, PolarResult, BodyPlacement, CollisionOperator, LbmForceResult,
+  EdgeCondition, TunnelBoundaries, FlowFieldMode, Colormap, FlowVisualization, FlowProbe, ProbeRecord,
+  LbmWakeResult, ImportedAirfoil, ParagliderSection, ControlSweepResult, WingControlInput, WingControls
+} from './types';
 import { explainSimulation } from './services/geminiService';
-import { calculatePhysics } from './services/physics';
-import { Settings, Info, PenTool, Box, Circle, Triangle, Wind } from 'lucide-react';
+import { calculatePhysics, PhysicsOptions } from './services/physics';
+import { calculateAxisymmetric } from './services/axisymmetric';
+import { standardAtmosphere, temperatureOffsetForDensityAltitude } from './services/atmosphere';
+import { runPolarSweep, runControlSweep, PolarRange } from './services/polar';
+import { defaultRange, colormapGradient, FIELD_UNITS } from './services/flowField';
+import { airfoilContour, nacaContour, parseNacaDesignation } from './services/airfoil';
+import { airfoilToDat, parseAirfoilDat } from './services/airfoilDat';
+import { paragliderProfile } from './services/paraglider';
+import { NEUTRAL_CONTROLS } from './services/controls';
+import { downloadText } from './services/download';
+import { Settings, Info, PenTool, Box, Circle, Triangle, Wind, Plus, X, Upload, Download, FileText } from 'lucide-react';
+
+// Edge conditions of common tunnel set-ups
+const TUNNEL_PRESETS: [string, TunnelBoundaries][] = [
+  ['FREE AIR', { left: 'velocity', right: 'pressure', top: 'velocity', bottom: 'velocity' }],
+  ['CLOSED', { left: 'velocity', right: 'pressure', top: 'no-slip', bottom: 'no-slip' }],
+  ['PERIODIC', { left: 'velocity', right: 'pressure', top: 'periodic', bottom: 'periodic' }]
+];
+
+const EDGE_CONDITIONS: [EdgeCondition, string][] = [
+  ['velocity', 'VELOCITY'],
+  ['pressure', 'PRESSURE'],
+  ['outflow', 'ZERO-GRAD'],
+  ['convective', 'CONVECTIVE'],
+  ['no-slip', 'NO-SLIP'],
+  ['free-slip', 'FREE-SLIP'],
+  ['periodic', 'PERIODIC']
+];
+
+const OPPOSITE_EDGE = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' } as const;
+
+const TEMPERATURE_OFFSET_LIMIT = 30; // K either side of ISA
+
+const FIELD_MODES: [FlowFieldMode, string][] = [
+  ['speed', 'SPEED'],
+  ['vorticity', 'VORTICITY'],
+  ['pressure', 'Cp'],
+  ['ux', 'Ux'],
+  ['uy', 'Uy'],
+  ['streamfunction', 'STREAM ψ'],
+  ['meanSpeed', 'MEAN |V|'],
+  ['meanPressure', 'MEAN Cp'],
+  ['tke', 'TKE'],
+  ['rmsUx', "U' RMS"],
+  ['rmsUy', "V' RMS"],
+  ['reynoldsStress', "u'v'"]
+];
+
+const COLORMAPS: Colormap[] = ['viridis', 'magma', 'turbo', 'coolwarm', 'grayscale'];
+
+// Paraglider section sliders: key, label, min, max, step (all in fractions of the chord)
+const PARAGLIDER_CONTROLS: [keyof ParagliderSection, string, number, number, number][] = [
+  ['thickness', 'THICKNESS', 0.08, 0.22, 0.005],
+  ['camber', 'CAMBER', 0, 0.08, 0.005],
+  ['reflex', 'REFLEX', 0, 0.03, 0.001],
+  ['inletPosition', 'INLET POSITION', 0.005, 0.1, 0.005],
+  ['inletSize', 'INLET SIZE', 0.01, 0.12, 0.005]
+];
 
 const App: React.FC = () => {
   const [shapeType, setShapeType] = useState<ShapeType>(ShapeType.PARAGLIDER);
@@ -12,35 +72,174 @@ const App: React.FC = () => {
     windSpeed: 38, // Typical paragliding trim speed km/h approx
     angleOfAttack: 8,
     viscosity: 1,
-    particleCount: 2000
+    altitude: 1500, // Typical launch altitude, m
+    temperatureOffset: 0,
+    particleCount: 2000,
+    referenceLength: 2.5, // Typical paraglider chord, m
+    momentReference: 0.25, // Quarter chord
+    panelCount: 100,
+    additionalBodies: [],
+    groundEffect: false,
+    groundHeight: 1.5, // m
+    collisionOperator: 'mrt',
+    smagorinskyConstant: 0.1,
+    boundaries: TUNNEL_PRESETS[0][1],
+    latticeRows: 100,
+    visualization: { mode: 'speed', colormap: 'viridis', autoRange: true, min: 0, max: 16 }, // m/s
+    statisticsWarmup: 5,
+    airfoil: { designation: '2412', pointCount: 80, sharpTrailingEdge: false },
+    paraglider: { thickness: 0.15, camber: 0.035, reflex: 0.005, inletPosition: 0.01, inletSize: 0.06 },
+    axisymmetric: false,
+    controls: NEUTRAL_CONTROLS
   });
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [currentShapePoints, setCurrentShapePoints] = useState<Point[]>([]);
+  const [currentBodies, setCurrentBodies] = useState<Point[][]>([]);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [polarResult, setPolarResult] = useState<PolarResult | null>(null);
+  const [isControlSweeping, setIsControlSweeping] = useState(false);
+  const [controlSweep, setControlSweep] = useState<ControlSweepResult | null>(null);
+  const [lbmForces, setLbmForces] = useState<LbmForceResult | null>(null);
+  const [blockage, setBlockage] = useState(0);
+  const [probes, setProbes] = useState<FlowProbe[]>([]);
+  const [probeRecords, setProbeRecords] = useState<ProbeRecord[]>([]);
+  const [lbmWake, setLbmWake] = useState<LbmWakeResult | null>(null);
+  // Designation as typed; only valid ones reach the airfoil settings
+  const [designationDraft, setDesignationDraft] = useState(params.airfoil.designation);
+  const draftSection = useMemo(() => parseNacaDesignation(designationDraft), [designationDraft]);
+  // Density altitude as typed; null shows the one the atmosphere gives
+  const [densityAltitudeDraft, setDensityAltitudeDraft] = useState<string | null>(null);
+  const [importedAirfoil, setImportedAirfoil] = useState<ImportedAirfoil | null>(null);
+  const [datError, setDatError] = useState<string | null>(null);
+  const datInput = useRef<HTMLInputElement>(null);
+
+  const atmosphere = useMemo(
+    () => standardAtmosphere(params.altitude, params.temperatureOffset, params.viscosity),
+    [params.altitude, params.temperatureOffset, params.viscosity]
+  );
+  // Undeformed main section of the shapes flown with brakes and speed bar, null for the rest
+  const wingSection = useMemo((): Point[] | null => {
+    if (shapeType === ShapeType.PARAGLIDER) return paragliderProfile(params.paraglider).points;
+    if (shapeType === ShapeType.IMPORTED && importedAirfoil) return importedAirfoil.points;
+    if (shapeType === ShapeType.AIRFOIL || shapeType === ShapeType.IMPORTED) return airfoilContour(params.airfoil);
+    return null;
+  }, [shapeType, params.paraglider, params.airfoil, importedAirfoil]);
+  const physicsOptions: PhysicsOptions = {
+    referenceLength: params.referenceLength,
+    momentReference: params.momentReference,
+    atmosphere,
+    groundHeight: params.groundEffect ? params.groundHeight : undefined,
+    inlet: shapeType === ShapeType.PARAGLIDER ? paragliderProfile(params.paraglider).inlet : undefined
+  };
+
+  const addBody = (type: ShapeType) => {
+    // Default placements: an airfoil becomes a flap behind the trailing edge, anything else hangs below
+    const placement: BodyPlacement = type === ShapeType.AIRFOIL
+      ? { id: Date.now(), shapeType: type, x: 0.63, y: -0.08, scale: 0.3, incidence: 15 }
+      : { id: Date.now(), shapeType: type, x: 0, y: -0.6, scale: 0.5, incidence: 0 };
+    setParams({ ...params, additionalBodies: [...params.additionalBodies, placement] });
+  };
+
+  const updateBody = (id: number, key: keyof Omit<BodyPlacement, 'id' | 'shapeType'>, value: number) => {
+    setParams({
+      ...params,
+      additionalBodies: params.additionalBodies.map(b => (b.id === id ? { ...b, [key]: value } : b))
+    });
+  };
+
+  const removeBody = (id: number) => {
+    setParams({ ...params, additionalBodies: params.additionalBodies.filter(b => b.id !== id) });
+  };
+
+  const setAirfoil = (changes: Partial<SimulationParams['airfoil']>) => {
+    setParams({ ...params, airfoil: { ...params.airfoil, ...changes } });
+  };
+
+  const editDesignation = (value: string) => {
+    setDesignationDraft(value);
+    const { section } = parseNacaDesignation(value);
+    if (section) setAirfoil({ designation: section.designation });
+  };
+
+  // Density altitude is not a parameter of its own: it sets the temperature offset that
+  // gives it at the chosen pressure altitude, within the temperature slider's range
+  const editDensityAltitude = (value: string) => {
+    setDensityAltitudeDraft(value);
+    const densityAltitude = parseFloat(value);
+    if (Number.isNaN(densityAltitude)) return;
+    const offset = temperatureOffsetForDensityAltitude(params.altitude, densityAltitude);
+    const clamped = Math.max(-TEMPERATURE_OFFSET_LIMIT, Math.min(TEMPERATURE_OFFSET_LIMIT, offset));
+    setParams({ ...params, temperatureOffset: Math.round(clamped * 10) / 10 });
+  };
+
+  const setEdge = (edge: keyof TunnelBoundaries, condition: EdgeCondition) => {
+    // Periodic edges come in pairs: joining or leaving a pair moves the opposite edge too
+    const opposite = OPPOSITE_EDGE[edge];
+    const boundaries = { ...params.boundaries, [edge]: condition };
+    if (condition === 'periodic') {
+      boundaries[opposite] = 'periodic';
+    } else if (params.boundaries[opposite] === 'periodic') {
+      boundaries[opposite] = opposite === 'left' ? 'velocity' : opposite === 'right' ? 'convective' : condition;
+    }
+    setParams({ ...params, boundaries });
+  };
+
+  const setVisualization = (changes: Partial<FlowVisualization>) => {
+    const visualization = { ...params.visualization, ...changes };
+    // A new quantity (or leaving auto) starts its fixed range from the freestream scales
+    if (changes.mode !== undefined || changes.autoRange === false) {
+      Object.assign(visualization, defaultRange(visualization.mode, params.windSpeed / 3.6, params.referenceLength));
+    }
+    setParams({ ...params, visualization });
+  };
+
+  const edgeSelect = (edge: keyof TunnelBoundaries) => (
+    <select
+      value={params.boundaries[edge]}
+      onChange={(e) => setEdge(edge, e.target.value as EdgeCondition)}
+      title={`${edge} edge`}
+      className="w-full bg-slate-950 border border-slate-800 rounded px-1 py-1 text-sky-400 text-[9px] font-mono"
+    >
+      {EDGE_CONDITIONS.map(([condition, label]) => (
+        <option key={condition} value={condition}>{label}</option>
+      ))}
+    </select>
+  );
 
   const handleAnalyze = async () => {
-    if (currentShapePoints.length < 3) return;
+    if (currentBodies.length === 0 || currentBodies[0].length < 3) return;
     
     setIsAnalyzing(true);
     try {
       // 1. Run Scientific Physics Engine (Local Math)
-      const physicsData = calculatePhysics(
-        currentShapePoints, 
-        params.windSpeed, 
-        params.angleOfAttack
-      );
+      // Geometry arrives in metres; the airspeed slider is in km/h
+      const physicsData = params.axisymmetric
+        ? calculateAxisymmetric(currentBodies[0], params.windSpeed / 3.6, {
+            atmosphere,
+            panels: params.panelCount,
+            momentReference: params.momentReference
+          })
+        : calculatePhysics(
+            currentBodies,
+            params.windSpeed / 3.6,
+            params.angleOfAttack,
+            physicsOptions
+          );
 
       // 2. Run AI Consultant (Explanation of Data)
       // We pass the calculated data, not an image guess
+      const controls = wingSection && !params.axisymmetric ? params.controls : null;
       const expertExplanation = await explainSimulation(
           physicsData, 
           shapeType, 
-          params.angleOfAttack
+          params.angleOfAttack,
+          controls
       );
 
       // 3. Merge Results
       setAnalysisResult({
         ...physicsData,
+        controls,
         ...expertExplanation
       });
 
@@ -51,6 +250,78 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRunPolar = (range: PolarRange) => {
+    if (currentBodies.length === 0 || currentBodies[0].length < 3) return;
+
+    setIsSweeping(true);
+    // Let the button repaint before the (synchronous) sweep blocks the thread
+    setTimeout(() => {
+      try {
+        setPolarResult(runPolarSweep(currentBodies, params.windSpeed / 3.6, range, physicsOptions));
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setIsSweeping(false);
+      }
+    }, 0);
+  };
+
+  const handleRunControlSweep = (input: WingControlInput) => {
+    if (!wingSection) return;
+
+    setIsControlSweeping(true);
+    // Let the button repaint before the (synchronous) sweep blocks the thread
+    setTimeout(() => {
+      try {
+        setControlSweep(runControlSweep(
+          wingSection,
+          input,
+          params.controls,
+          params.windSpeed / 3.6,
+          params.angleOfAttack,
+          params.referenceLength,
+          params.panelCount,
+          physicsOptions
+        ));
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setIsControlSweeping(false);
+      }
+    }, 0);
+  };
+
+  const setControls = (changes: Partial<WingControls>) => {
+    setParams({ ...params, controls: { ...params.controls, ...changes } });
+  };
+
+  const selectShape = (type: ShapeType) => {
+    setShapeType(type);
+    // A pod harness is a body of revolution; sections are not
+    setParams({ ...params, axisymmetric: type === ShapeType.POD });
+    setAnalysisResult(null);
+    setPolarResult(null);
+    setControlSweep(null);
+  };
+
+  const importDat = async (file: File) => {
+    const result = parseAirfoilDat(await file.text(), file.name.replace(/\.[^.]*$/, ''));
+    setDatError(result.error);
+    if (!result.airfoil) return;
+    setImportedAirfoil(result.airfoil);
+    selectShape(ShapeType.IMPORTED);
+  };
+
+  // The main body as the solver sees it (repaneled, zero incidence), back to unit chord
+  const exportDat = () => {
+    if (currentBodies.length === 0 || currentBodies[0].length < 3) return;
+    const name = shapeType === ShapeType.AIRFOIL ? `NACA ${params.airfoil.designation}`
+      : shapeType === ShapeType.IMPORTED && importedAirfoil ? importedAirfoil.name
+      : shapeType === ShapeType.CUSTOM ? 'Custom section'
+      : shapeType.toLowerCase();
+    downloadText(`${name.replace(/[^\w.-]+/g, '_')}.dat`, airfoilToDat(name, currentBodies[0]), 'text/plain');
+  };
+
   return (
     <div className="h-screen w-screen flex flex-col bg-black text-slate-100 overflow-hidden font-sans selection:bg-sky-500/30">
       
@@ -84,7 +355,7 @@ const App: React.FC = () => {
             <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Paragliding Equipment</h3>
             <div className="grid grid-cols-2 gap-2">
               <button
-                onClick={() => { setShapeType(ShapeType.PARAGLIDER); setAnalysisResult(null); }}
+                onClick={() => selectShape(ShapeType.PARAGLIDER)}
                 className={`p-3 rounded border flex flex-col items-center gap-2 transition-all ${
                   shapeType === ShapeType.PARAGLIDER ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
                 }`}
@@ -94,7 +365,7 @@ const App: React.FC = () => {
               </button>
               
               <button
-                onClick={() => { setShapeType(ShapeType.POD); setAnalysisResult(null); }}
+                onClick={() => selectShape(ShapeType.POD)}
                 className={`p-3 rounded border flex flex-col items-center gap-2 transition-all ${
                   shapeType === ShapeType.POD ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
                 }`}
@@ -107,16 +378,16 @@ const App: React.FC = () => {
             <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3 mt-6">Standard Shapes</h3>
              <div className="grid grid-cols-3 gap-2">
               <button
-                onClick={() => { setShapeType(ShapeType.AIRFOIL); setAnalysisResult(null); }}
+                onClick={() => selectShape(ShapeType.AIRFOIL)}
                 className={`p-2 rounded border flex flex-col items-center gap-1 transition-all ${
                   shapeType === ShapeType.AIRFOIL ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
                 }`}
               >
                 <div className="w-6 h-1 bg-current rounded-full" />
-                <span className="text-[9px] font-mono">NACA</span>
+                <span className="text-[9px] font-mono">NACA {params.airfoil.designation}</span>
               </button>
               <button
-                onClick={() => { setShapeType(ShapeType.CYLINDER); setAnalysisResult(null); }}
+                onClick={() => selectShape(ShapeType.CYLINDER)}
                 className={`p-2 rounded border flex flex-col items-center gap-1 transition-all ${
                   shapeType === ShapeType.CYLINDER ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
                 }`}
@@ -125,7 +396,7 @@ const App: React.FC = () => {
                 <span className="text-[9px] font-mono">CYLINDER</span>
               </button>
                <button
-                onClick={() => { setShapeType(ShapeType.CUSTOM); setAnalysisResult(null); }}
+                onClick={() => selectShape(ShapeType.CUSTOM)}
                 className={`p-2 rounded border flex flex-col items-center gap-1 transition-all ${
                   shapeType === ShapeType.CUSTOM ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
                 }`}
@@ -133,7 +404,130 @@ const App: React.FC = () => {
                 <PenTool className="w-4 h-4" />
                 <span className="text-[9px] font-mono">DRAW</span>
               </button>
+              {importedAirfoil && (
+                <button
+                  onClick={() => selectShape(ShapeType.IMPORTED)}
+                  title={`${importedAirfoil.name} (${importedAirfoil.format}, ${importedAirfoil.points.length} points)`}
+                  className={`p-2 rounded border flex flex-col items-center gap-1 transition-all ${
+                    shapeType === ShapeType.IMPORTED ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
+                  }`}
+                >
+                  <FileText className="w-4 h-4" />
+                  <span className="text-[9px] font-mono truncate max-w-full">{importedAirfoil.name.toUpperCase()}</span>
+                </button>
+              )}
             </div>
+
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <button
+                onClick={() => datInput.current?.click()}
+                className="p-2 rounded border bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400 flex items-center justify-center gap-1 text-[9px] font-mono"
+              >
+                <Upload className="w-3 h-3" />
+                IMPORT .DAT
+              </button>
+              <button
+                onClick={exportDat}
+                disabled={currentBodies.length === 0}
+                className="p-2 rounded border bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400 flex items-center justify-center gap-1 text-[9px] font-mono disabled:opacity-40"
+              >
+                <Download className="w-3 h-3" />
+                EXPORT .DAT
+              </button>
+            </div>
+            <input
+              ref={datInput}
+              type="file"
+              accept=".dat,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importDat(file);
+                e.target.value = ''; // the same file can be picked again after editing it
+              }}
+            />
+            {datError && <div className="mt-2 text-[10px] font-mono text-red-400">{datError}</div>}
+
+            {shapeType === ShapeType.PARAGLIDER && (
+              <div className="mt-4 space-y-2">
+                {PARAGLIDER_CONTROLS.map(([key, label, min, max, step]) => (
+                  <div key={key} className="space-y-1">
+                    <div className="flex justify-between text-[11px] font-mono">
+                      <span className="text-slate-400">{label}</span>
+                      <span className="text-sky-400">{(params.paraglider[key] * 100).toFixed(1)}% c</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={params.paraglider[key]}
+                      onChange={(e) => setParams({ ...params, paraglider: { ...params.paraglider, [key]: parseFloat(e.target.value) } })}
+                      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(shapeType === ShapeType.AIRFOIL || params.additionalBodies.some(b => b.shapeType === ShapeType.AIRFOIL)) && (
+              <div className="mt-4 space-y-2">
+                <label className="flex items-center gap-2 text-[11px] font-mono text-slate-400">
+                  <span>NACA</span>
+                  <input
+                    type="text"
+                    value={designationDraft}
+                    onChange={(e) => editDesignation(e.target.value)}
+                    placeholder="2412 / 23012"
+                    spellCheck={false}
+                    className={`w-full bg-slate-950 border rounded px-2 py-1 text-sky-400 ${
+                      draftSection.error ? 'border-red-500/60' : 'border-slate-800'
+                    }`}
+                  />
+                </label>
+                {draftSection.section ? (
+                  <div className="bg-slate-950 rounded border border-slate-800 p-2">
+                    <svg viewBox="-0.02 -0.16 1.04 0.32" className="w-full h-12">
+                      <polygon
+                        points={nacaContour(draftSection.section, 60, params.airfoil.sharpTrailingEdge)
+                          .map(p => `${p.x},${-p.y}`).join(' ')}
+                        className="fill-sky-500/20 stroke-sky-400"
+                        strokeWidth={0.006}
+                      />
+                    </svg>
+                    <div className="flex justify-between text-[9px] font-mono text-slate-500">
+                      <span>{draftSection.section.series}-DIGIT</span>
+                      <span>t/c {(draftSection.section.thickness * 100).toFixed(0)}%</span>
+                      <span>CAMBER {(draftSection.section.maxCamber * 100).toFixed(1)}%</span>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-[10px] font-mono text-red-400">{draftSection.error}</div>
+                )}
+                <div className="flex justify-between text-[11px] font-mono">
+                  <span className="text-slate-400">POINTS</span>
+                  <span className="text-sky-400">{params.airfoil.pointCount}</span>
+                </div>
+                <input
+                  type="range"
+                  min="20"
+                  max="200"
+                  step="10"
+                  value={params.airfoil.pointCount}
+                  onChange={(e) => setAirfoil({ pointCount: parseInt(e.target.value) })}
+                  className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                />
+                <label className="flex justify-between items-center text-[11px] font-mono text-slate-400">
+                  <span>SHARP TRAILING EDGE</span>
+                  <input
+                    type="checkbox"
+                    checked={params.airfoil.sharpTrailingEdge}
+                    onChange={(e) => setAirfoil({ sharpTrailingEdge: e.target.checked })}
+                    className="accent-sky-500"
+                  />
+                </label>
+              </div>
+            )}
           </section>
 
           {/* Physics Parameters */}
@@ -174,6 +568,467 @@ const App: React.FC = () => {
                 className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
               />
             </div>
+
+            {wingSection && (
+              <div className="space-y-2">
+                {([['brake', 'BRAKE TRAVEL'], ['speedBar', 'SPEED BAR']] as [WingControlInput, string][]).map(([input, label]) => (
+                  <div key={input} className="space-y-1">
+                    <div className="flex justify-between text-[11px] font-mono">
+                      <span className="text-slate-400">{label}</span>
+                      <span className="text-sky-400">{Math.round(params.controls[input] * 100)}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={params.controls[input]}
+                      onChange={(e) => setControls({ [input]: parseFloat(e.target.value) })}
+                      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                    />
+                  </div>
+                ))}
+                <div className="text-[9px] text-slate-600 font-mono leading-relaxed">
+                  Brakes pull the rear 40% down (10% chord at full travel); the bar pitches the
+                  section 4° nose down and adds reflex.
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">MODEL CHORD / DIAMETER</span>
+                <span className="text-sky-400">{params.referenceLength.toFixed(2)} m</span>
+              </div>
+              <input
+                type="range"
+                min="0.05"
+                max="4"
+                step="0.05"
+                value={params.referenceLength}
+                onChange={(e) => setParams({ ...params, referenceLength: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+              <div className="flex justify-between text-[9px] text-slate-600 font-mono">
+                <span>MODEL</span>
+                <span>HARNESS</span>
+                <span>WING</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">MOMENT REFERENCE</span>
+                <span className="text-sky-400">{params.momentReference.toFixed(2)} x/c</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.01"
+                value={params.momentReference}
+                onChange={(e) => setParams({ ...params, momentReference: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+              <div className="flex justify-between text-[9px] text-slate-600 font-mono">
+                <span>LE</span>
+                <span>c/4</span>
+                <span>TE</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">PANELS</span>
+                <span className="text-sky-400">{params.panelCount}</span>
+              </div>
+              <input
+                type="range"
+                min="40"
+                max="200"
+                step="10"
+                value={params.panelCount}
+                onChange={(e) => setParams({ ...params, panelCount: parseInt(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex justify-between items-center text-[11px] font-mono text-slate-400">
+                <span>BODY OF REVOLUTION</span>
+                <input
+                  type="checkbox"
+                  checked={params.axisymmetric}
+                  onChange={(e) => setParams({ ...params, axisymmetric: e.target.checked })}
+                  className="accent-sky-500"
+                />
+              </label>
+              {params.axisymmetric && (
+                <div className="text-[9px] text-slate-600 font-mono leading-relaxed">
+                  Main body turned about its chord line, in axial flow: incidence and further bodies are
+                  left out. Drag is reported as a drag area (CdA).
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Additional Bodies */}
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Additional Bodies</h3>
+
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                [ShapeType.AIRFOIL, 'FLAP'],
+                [ShapeType.POD, 'POD'],
+                [ShapeType.CYLINDER, 'CYLINDER']
+              ] as [ShapeType, string][]).map(([type, label]) => (
+                <button
+                  key={type}
+                  onClick={() => addBody(type)}
+                  className="p-2 rounded border bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400 flex items-center justify-center gap-1 text-[9px] font-mono"
+                >
+                  <Plus className="w-3 h-3" />
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {params.additionalBodies.map((body, index) => (
+              <div key={body.id} className="bg-slate-900 p-2 rounded border border-slate-800 space-y-2">
+                <div className="flex justify-between items-center text-[10px] font-mono text-slate-400">
+                  <span>#{index + 2} {body.shapeType}</span>
+                  <button onClick={() => removeBody(body.id)} className="text-slate-500 hover:text-red-400" title="Remove body">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 gap-1">
+                  {([
+                    ['x', 'X/c', 0.05],
+                    ['y', 'Y/c', 0.05],
+                    ['scale', 'SIZE', 0.05],
+                    ['incidence', 'δ°', 1]
+                  ] as [keyof Omit<BodyPlacement, 'id' | 'shapeType'>, string, number][]).map(([key, label, step]) => (
+                    <label key={key} className="flex flex-col gap-0.5 text-[9px] font-mono text-slate-500">
+                      {label}
+                      <input
+                        type="number"
+                        step={step}
+                        value={body[key]}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!Number.isNaN(parsed)) updateBody(body.id, key, parsed);
+                        }}
+                        className="bg-slate-950 border border-slate-800 rounded px-1 py-0.5 text-sky-400 text-[10px] w-full"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <label className="flex justify-between items-center text-[11px] font-mono text-slate-400">
+                <span>GROUND EFFECT</span>
+                <input
+                  type="checkbox"
+                  checked={params.groundEffect}
+                  onChange={(e) => setParams({ ...params, groundEffect: e.target.checked })}
+                  className="accent-sky-500"
+                />
+              </label>
+              {params.groundEffect && (
+                <>
+                  <div className="flex justify-between text-[11px] font-mono">
+                    <span className="text-slate-400">HEIGHT ABOVE GROUND</span>
+                    <span className="text-sky-400">{params.groundHeight.toFixed(2)} m</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="5"
+                    step="0.05"
+                    value={params.groundHeight}
+                    onChange={(e) => setParams({ ...params, groundHeight: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+                  />
+                </>
+              )}
+            </div>
+          </section>
+
+          {/* Atmosphere */}
+          <section className="space-y-6">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Atmosphere (ISA)</h3>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">ALTITUDE</span>
+                <span className="text-sky-400">{params.altitude} m</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="5000"
+                step="50"
+                value={params.altitude}
+                onChange={(e) => setParams({ ...params, altitude: parseInt(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">TEMPERATURE</span>
+                <span className="text-sky-400">
+                  {(atmosphere.temperature - 273.15).toFixed(1)} °C (ISA{params.temperatureOffset >= 0 ? '+' : ''}{Number.isInteger(params.temperatureOffset) ? params.temperatureOffset : params.temperatureOffset.toFixed(1)})
+                </span>
+              </div>
+              <input
+                type="range"
+                min={-TEMPERATURE_OFFSET_LIMIT}
+                max={TEMPERATURE_OFFSET_LIMIT}
+                value={params.temperatureOffset}
+                onChange={(e) => setParams({ ...params, temperatureOffset: parseInt(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center text-[11px] font-mono">
+                <span className="text-slate-400">DENSITY ALTITUDE</span>
+                <span className="flex items-center gap-1">
+                  <input
+                    type="number"
+                    step="50"
+                    value={densityAltitudeDraft ?? atmosphere.densityAltitude.toFixed(0)}
+                    onChange={(e) => editDensityAltitude(e.target.value)}
+                    onBlur={() => setDensityAltitudeDraft(null)}
+                    className="w-20 bg-slate-950 border border-slate-800 rounded px-1 py-0.5 text-sky-400 text-right"
+                  />
+                  <span className="text-sky-400">m</span>
+                </span>
+              </div>
+              <div className="text-[10px] font-mono text-slate-500">
+                Sets the temperature offset that gives this density at the pressure altitude
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">VISCOSITY FACTOR</span>
+                <span className="text-sky-400">×{params.viscosity.toFixed(2)}</span>
+              </div>
+              <input
+                type="range"
+                min="0.5"
+                max="2"
+                step="0.05"
+                value={params.viscosity}
+                onChange={(e) => setParams({ ...params, viscosity: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+              <div className="bg-slate-900 p-2 rounded border border-slate-800">
+                <div className="text-slate-500">PRESSURE</div>
+                <div className="text-slate-300">{(atmosphere.pressure / 100).toFixed(1)} hPa</div>
+              </div>
+              <div className="bg-slate-900 p-2 rounded border border-slate-800">
+                <div className="text-slate-500">ρ</div>
+                <div className="text-slate-300">{atmosphere.density.toFixed(3)} kg/m³</div>
+              </div>
+              <div className="bg-slate-900 p-2 rounded border border-slate-800">
+                <div className="text-slate-500">μ</div>
+                <div className="text-slate-300">{atmosphere.dynamicViscosity.toExponential(3)} Pa·s</div>
+              </div>
+              <div className="bg-slate-900 p-2 rounded border border-slate-800">
+                <div className="text-slate-500">ν</div>
+                <div className="text-slate-300">{atmosphere.kinematicViscosity.toExponential(3)} m²/s</div>
+              </div>
+            </div>
+          </section>
+
+          {/* LBM Solver */}
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">LBM Solver</h3>
+
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['bgk', 'BGK'],
+                ['mrt', 'MRT'],
+                ['entropic', 'ENTROPIC']
+              ] as [CollisionOperator, string][]).map(([operator, label]) => (
+                <button
+                  key={operator}
+                  onClick={() => setParams({ ...params, collisionOperator: operator })}
+                  className={`p-2 rounded border text-[9px] font-mono transition-all ${
+                    params.collisionOperator === operator ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">SMAGORINSKY Cs</span>
+                <span className="text-sky-400">{params.smagorinskyConstant > 0 ? params.smagorinskyConstant.toFixed(2) : 'OFF'}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.3"
+                step="0.01"
+                value={params.smagorinskyConstant}
+                onChange={(e) => setParams({ ...params, smagorinskyConstant: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-[11px] font-mono text-slate-400">GRID</div>
+              <div className="grid grid-cols-4 gap-2">
+                {[75, 100, 150, 200].map(latticeRows => (
+                  <button
+                    key={latticeRows}
+                    onClick={() => setParams({ ...params, latticeRows })}
+                    className={`p-2 rounded border text-[9px] font-mono transition-all ${
+                      params.latticeRows === latticeRows ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
+                    }`}
+                  >
+                    {latticeRows * 2}×{latticeRows}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          {/* Tunnel Boundaries */}
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Tunnel Boundaries</h3>
+
+            <div className="grid grid-cols-3 gap-2">
+              {TUNNEL_PRESETS.map(([label, boundaries]) => {
+                const active = (Object.keys(boundaries) as (keyof TunnelBoundaries)[])
+                  .every(edge => params.boundaries[edge] === boundaries[edge]);
+                return (
+                  <button
+                    key={label}
+                    onClick={() => setParams({ ...params, boundaries })}
+                    className={`p-2 rounded border text-[9px] font-mono transition-all ${
+                      active ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Edges laid out around the test section */}
+            <div className="grid grid-cols-3 gap-1 items-center">
+              <div />
+              {edgeSelect('top')}
+              <div />
+              {edgeSelect('left')}
+              <div className="h-10 rounded border border-dashed border-slate-700 flex items-center justify-center text-[9px] font-mono text-slate-500">
+                FLOW →
+              </div>
+              {edgeSelect('right')}
+              <div />
+              {edgeSelect('bottom')}
+              <div />
+            </div>
+
+            <div className="flex justify-between text-[11px] font-mono">
+              <span className="text-slate-400">BLOCKAGE RATIO</span>
+              <span className={blockage > 0.1 ? 'text-amber-400' : 'text-sky-400'}>{(blockage * 100).toFixed(1)}%</span>
+            </div>
+          </section>
+
+          {/* Visualization */}
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Visualization</h3>
+
+            <div className="grid grid-cols-3 gap-2">
+              {FIELD_MODES.map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setVisualization({ mode })}
+                  className={`p-2 rounded border text-[9px] font-mono transition-all ${
+                    params.visualization.mode === mode ? 'bg-sky-500/10 border-sky-500 text-sky-400' : 'bg-slate-900 border-slate-800 hover:border-slate-700 text-slate-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-5 gap-1">
+              {COLORMAPS.map(colormap => (
+                <button
+                  key={colormap}
+                  onClick={() => setVisualization({ colormap })}
+                  title={colormap}
+                  className={`h-4 rounded border transition-all ${
+                    params.visualization.colormap === colormap ? 'border-sky-400' : 'border-slate-800 hover:border-slate-600'
+                  }`}
+                  style={{ background: colormapGradient(colormap) }}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex justify-between items-center text-[11px] font-mono text-slate-400">
+                <span>AUTO RANGE</span>
+                <input
+                  type="checkbox"
+                  checked={params.visualization.autoRange}
+                  onChange={(e) => setVisualization({ autoRange: e.target.checked })}
+                  className="accent-sky-500"
+                />
+              </label>
+              {!params.visualization.autoRange && (
+                <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+                  {(['min', 'max'] as const).map(bound => (
+                    <label key={bound} className="flex items-center gap-1 text-slate-500">
+                      {bound.toUpperCase()}
+                      <input
+                        type="number"
+                        step="any"
+                        value={params.visualization[bound]}
+                        onChange={(e) => {
+                          const parsed = parseFloat(e.target.value);
+                          if (!Number.isNaN(parsed)) setVisualization(bound === 'min' ? { min: parsed } : { max: parsed });
+                        }}
+                        className="w-full bg-slate-950 border border-slate-800 rounded px-1 py-0.5 text-sky-400"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+              <div className="text-[10px] font-mono text-slate-500 text-right">
+                {FIELD_UNITS[params.visualization.mode]}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-[11px] font-mono">
+                <span className="text-slate-400">AVERAGING WARM-UP</span>
+                <span className="text-sky-400">{params.statisticsWarmup} c/V</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="40"
+                step="1"
+                value={params.statisticsWarmup}
+                onChange={(e) => setParams({ ...params, statisticsWarmup: parseInt(e.target.value) })}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-sky-500"
+              />
+            </div>
           </section>
 
           {/* Info Box */}
@@ -185,6 +1040,7 @@ const App: React.FC = () => {
             <ul className="list-disc pl-3 space-y-1">
                 <li><strong className="text-slate-400">Visuals:</strong> Lattice Boltzmann (LBM D2Q9) for Turbulence & Separation.</li>
                 <li><strong className="text-slate-400">Data:</strong> Vortex Panel Method for Lift/Drag calculation.</li>
+                <li><strong className="text-slate-400">LBM Forces:</strong> Momentum exchange on the obstacle for separated flow and shedding.</li>
             </ul>
           </div>
 
@@ -195,7 +1051,15 @@ const App: React.FC = () => {
             <WindTunnel 
                 shapeType={shapeType} 
                 params={params}
-                onShapeData={setCurrentShapePoints}
+                atmosphere={atmosphere}
+                onShapeData={setCurrentBodies}
+                onForceData={setLbmForces}
+                onBlockage={setBlockage}
+                probes={probes}
+                onProbesChange={setProbes}
+                onProbeData={setProbeRecords}
+                onWakeData={setLbmWake}
+                importedAirfoil={importedAirfoil}
             />
         </main>
 
@@ -204,6 +1068,16 @@ const App: React.FC = () => {
             loading={isAnalyzing} 
             result={analysisResult} 
             onAnalyze={handleAnalyze} 
+            polarLoading={isSweeping}
+            polarResult={polarResult}
+            onRunPolar={handleRunPolar}
+            controlSweepLoading={isControlSweeping}
+            controlSweep={controlSweep}
+            onRunControlSweep={wingSection ? handleRunControlSweep : undefined}
+            lbmForces={lbmForces}
+            lbmWake={lbmWake}
+            probeRecords={probeRecords}
+            onRemoveProbe={(id) => setProbes(probes.filter(p => p.id !== id))}
         />
 
       </div>
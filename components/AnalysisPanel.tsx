@@ -1,7 +1,16 @@
-import React from 'react';
-import { AnalysisResult } from '../types';
+import React, { useState } from 'react';
+import {
+  AnalysisResult, BoundaryLayerSurface, ControlSweepResult, LbmForceResult, LbmWakeResult, PolarResult, ProbeRecord,
+  WingControlInput
+} from '../types';
+import { PolarRange } from '../services/polar';
+import PolarPanel from './PolarPanel';
+import LbmForcePanel from './LbmForcePanel';
+import ProbePanel from './ProbePanel';
+import ValidationPanel from './ValidationPanel';
+import ControlSweepPanel from './ControlSweepPanel';
 import { 
-  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, Area, AreaChart 
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, ReferenceDot
 } from 'recharts';
 import { Wind, Activity, TrendingUp, AlertTriangle } from 'lucide-react';
 
@@ -9,15 +18,42 @@ interface AnalysisPanelProps {
   loading: boolean;
   result: AnalysisResult | null;
   onAnalyze: () => void;
+  polarLoading: boolean;
+  polarResult: PolarResult | null;
+  onRunPolar: (range: PolarRange) => void;
+  controlSweepLoading: boolean;
+  controlSweep: ControlSweepResult | null;
+  onRunControlSweep?: (input: WingControlInput) => void; // absent when the shape has no controls
+  lbmForces: LbmForceResult | null;
+  lbmWake: LbmWakeResult | null;
+  probeRecords: ProbeRecord[];
+  onRemoveProbe: (id: number) => void;
 }
 
-const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ loading, result, onAnalyze }) => {
+const formatStation = (x: number | null, fallback: string) => (x === null ? fallback : `${(x * 100).toFixed(1)}%`);
+
+const BoundaryLayerRow: React.FC<{ label: string; surface: BoundaryLayerSurface }> = ({ label, surface }) => (
+  <tr className="border-t border-slate-800">
+    <td className="py-1.5 text-slate-500">{label}</td>
+    <td className="py-1.5 text-right text-slate-300">
+      {formatStation(surface.transition, 'LAM')}{surface.laminarSeparation ? '*' : ''}
+    </td>
+    <td className={`py-1.5 text-right ${surface.separation === null ? 'text-slate-300' : 'text-amber-400'}`}>
+      {formatStation(surface.separation, 'TE')}
+    </td>
+    <td className="py-1.5 text-right text-slate-300">{(surface.momentumThickness * 1000).toFixed(2)}</td>
+    <td className="py-1.5 text-right text-slate-300">{surface.shapeFactor.toFixed(2)}</td>
+    <td className="py-1.5 text-right text-red-400">{surface.profileDrag.toFixed(5)}</td>
+  </tr>
+);
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  loading, result, onAnalyze, polarLoading, polarResult, onRunPolar, controlSweepLoading, controlSweep, onRunControlSweep,
+  lbmForces, lbmWake, probeRecords, onRemoveProbe
+}) => {
+  const [mode, setMode] = useState<'single' | 'polar' | 'controls' | 'lbm' | 'probes' | 'validation'>('single');
   
-  // Prepare Cp data for plotting (invert Y axis typically done in aero, but we'll stick to standard for now)
-  const cpData = result?.cpDistribution.map(pt => ({
-    x: pt.x.toFixed(0),
-    cp: pt.cp
-  })) || [];
+  const cp = result?.cpDistribution;
 
   return (
     <div className="bg-slate-900 border-l border-slate-700 w-full md:w-[450px] flex flex-col h-full overflow-y-auto shadow-xl z-20">
@@ -32,91 +68,286 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ loading, result, onAnalyz
       </div>
 
       <div className="p-6 flex-1 flex flex-col gap-6">
-        <button
-          onClick={onAnalyze}
-          disabled={loading}
-          className={`w-full py-3 px-4 rounded border font-mono text-sm tracking-wider transition-all uppercase ${
-            loading
-              ? 'bg-slate-800 border-slate-600 text-slate-500 cursor-wait'
-              : 'bg-sky-900/30 border-sky-500 text-sky-400 hover:bg-sky-900/50 shadow-[0_0_15px_rgba(14,165,233,0.3)]'
-          }`}
-        >
-          {loading ? 'CALCULATING...' : 'RUN SIMULATION'}
-        </button>
-
-        {result && (
-          <div className="space-y-6 animate-fade-in">
-            {/* Scientific Values Grid */}
-            <div className="grid grid-cols-2 gap-3">
-              <div className="bg-slate-950 p-3 rounded border border-slate-800">
-                <div className="text-slate-500 text-[10px] uppercase mb-1">Lift Coefficient (Cl)</div>
-                <div className="text-xl font-mono text-emerald-400">{result.liftCoefficient.toFixed(4)}</div>
-              </div>
-              <div className="bg-slate-950 p-3 rounded border border-slate-800">
-                <div className="text-slate-500 text-[10px] uppercase mb-1">Drag Coefficient (Cd)</div>
-                <div className="text-xl font-mono text-red-400">{result.dragCoefficient.toFixed(5)}</div>
-              </div>
-              <div className="bg-slate-950 p-3 rounded border border-slate-800">
-                <div className="text-slate-500 text-[10px] uppercase mb-1">L/D Ratio</div>
-                <div className="text-xl font-mono text-blue-400">{(result.liftCoefficient / result.dragCoefficient).toFixed(2)}</div>
-              </div>
-              <div className="bg-slate-950 p-3 rounded border border-slate-800">
-                <div className="text-slate-500 text-[10px] uppercase mb-1">Reynolds No.</div>
-                <div className="text-sm font-mono text-slate-300">{result.reynoldsNumber.toExponential(2)}</div>
+        {/* Mode Selection */}
+        <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+          {([
+            ['single', 'SINGLE POINT'], ['polar', 'POLAR SWEEP'], ['controls', 'CONTROLS'],
+            ['lbm', 'LBM FORCES'], ['probes', 'PROBES'], ['validation', 'VALIDATION']
+          ] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setMode(key)}
+              className={`py-1.5 rounded text-[10px] font-mono tracking-wider transition-all ${
+                mode === key ? 'bg-sky-500/10 text-sky-400' : 'text-slate-500 hover:text-slate-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'polar' && (
+          <PolarPanel loading={polarLoading} result={polarResult} onRun={onRunPolar} />
+        )}
+
+        {mode === 'controls' && (
+          <ControlSweepPanel loading={controlSweepLoading} result={controlSweep} onRun={onRunControlSweep} />
+        )}
+
+        {mode === 'lbm' && (
+          <LbmForcePanel result={lbmForces} wake={lbmWake} panelResult={result?.axisymmetric ? null : result} />
+        )}
+
+        {mode === 'probes' && (
+          <ProbePanel records={probeRecords} onRemove={onRemoveProbe} />
+        )}
+
+        {mode === 'validation' && <ValidationPanel />}
+
+        {mode === 'single' && (
+          <>
+          <button
+            onClick={onAnalyze}
+            disabled={loading}
+            className={`w-full py-3 px-4 rounded border font-mono text-sm tracking-wider transition-all uppercase ${
+              loading
+                ? 'bg-slate-800 border-slate-600 text-slate-500 cursor-wait'
+                : 'bg-sky-900/30 border-sky-500 text-sky-400 hover:bg-sky-900/50 shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+            }`}
+          >
+            {loading ? 'CALCULATING...' : 'RUN SIMULATION'}
+          </button>
+
+          {result && (
+            <div className="space-y-6 animate-fade-in">
+              {result.controls && (
+                <div className="flex justify-between text-[10px] font-mono text-slate-500">
+                  <span>CONTROL SETTING</span>
+                  <span className="text-slate-300">
+                    BRAKE {Math.round(result.controls.brake * 100)}% · SPEED BAR {Math.round(result.controls.speedBar * 100)}%
+                  </span>
+                </div>
+              )}
+              {/* Scientific Values Grid */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Lift Coefficient (Cl)</div>
+                  <div className="text-xl font-mono text-emerald-400">{result.liftCoefficient.toFixed(4)}</div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Drag Coefficient (Cd)</div>
+                  <div className="text-xl font-mono text-red-400">{result.dragCoefficient.toFixed(5)}</div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">L/D Ratio</div>
+                  <div className="text-xl font-mono text-blue-400">{(result.liftCoefficient / result.dragCoefficient).toFixed(2)}</div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Reynolds No.</div>
+                  <div className="text-sm font-mono text-slate-300">{result.reynoldsNumber.toExponential(2)}</div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Lift / Drag{result.axisymmetric ? '' : ' (per m span)'}</div>
+                  <div className="text-sm font-mono text-slate-300">
+                    {result.liftForce.toFixed(1)} N / {result.dragForce.toFixed(2)} N
+                  </div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Dynamic Pressure</div>
+                  <div className="text-sm font-mono text-slate-300">
+                    {result.dynamicPressure.toFixed(1)} Pa · ρ {result.density.toFixed(3)}
+                  </div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Moment Cm @ {result.momentReference.toFixed(2)}c</div>
+                  <div className="text-xl font-mono text-violet-400">{result.momentCoefficient.toFixed(4)}</div>
+                </div>
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-1">Centre of Pressure / A.C.</div>
+                  <div className="text-sm font-mono text-slate-300">
+                    {result.centerOfPressure.toFixed(3)}c / {result.aerodynamicCenter !== null ? `${result.aerodynamicCenter.toFixed(3)}c` : '—'}
+                  </div>
+                </div>
               </div>
-            </div>
 
-            {/* Pressure Distribution Chart */}
-            <div className="h-56 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
-              <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">PRESSURE COEFFICIENT (-Cp)</div>
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={cpData}>
-                    <defs>
-                        <linearGradient id="colorCp" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.3}/>
-                        <stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/>
-                        </linearGradient>
-                    </defs>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-                    <XAxis dataKey="x" hide />
-                    <YAxis stroke="#475569" fontSize={10} tickFormatter={(val) => val.toFixed(1)} domain={['auto', 'auto']} />
-                    <Tooltip 
-                        contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' }}
-                        itemStyle={{ color: '#38bdf8' }}
-                    />
-                    <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
-                    <Area type="monotone" dataKey="cp" stroke="#38bdf8" fillOpacity={1} fill="url(#colorCp)" strokeWidth={2} />
-                </AreaChart>
-              </ResponsiveContainer>
-            </div>
+              {/* Body of Revolution: drag area for choosing between harnesses */}
+              {result.axisymmetric && (
+                <div className="bg-slate-950 p-3 rounded border border-slate-800 space-y-2">
+                  <div className="text-slate-500 text-[10px] uppercase">Body of Revolution (axial flow)</div>
+                  <div className="flex items-baseline justify-between">
+                    <span className="text-[10px] font-mono text-slate-500">DRAG AREA CdA</span>
+                    <span className="text-xl font-mono text-red-400">{result.axisymmetric.dragArea.toFixed(4)} m²</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-[10px] font-mono text-slate-500">
+                    <span>FRICTION <span className="text-slate-300">{result.axisymmetric.frictionDragArea.toFixed(4)} m²</span></span>
+                    <span>PRESSURE <span className="text-slate-300">{result.axisymmetric.pressureDragArea.toFixed(4)} m²</span></span>
+                    <span>FRONTAL AREA <span className="text-slate-300">{result.axisymmetric.frontalArea.toFixed(3)} m²</span></span>
+                    <span>WETTED AREA <span className="text-slate-300">{result.axisymmetric.wettedArea.toFixed(2)} m²</span></span>
+                    <span>LENGTH <span className="text-slate-300">{result.axisymmetric.length.toFixed(2)} m</span></span>
+                    <span>DIAMETER <span className="text-slate-300">{result.axisymmetric.maxDiameter.toFixed(2)} m</span></span>
+                  </div>
+                  <div className="text-[9px] text-slate-600 font-mono">Cd above is on the frontal area; forces in N</div>
+                </div>
+              )}
 
-            {/* AI Explanation */}
-            <div className="space-y-3 border-t border-slate-800 pt-4">
-                <div className="flex items-center gap-2 text-sky-500 mb-1">
-                    <TrendingUp className="w-4 h-4" />
-                    <h3 className="text-xs font-bold uppercase tracking-wider">Expert Analysis</h3>
+              {/* Per-Body Breakdown */}
+              {result.bodies.length > 1 && (
+                <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                  <div className="text-slate-500 text-[10px] uppercase mb-2">Per Body (reference chord {result.chordLength.toFixed(2)} m)</div>
+                  <table className="w-full text-[10px] font-mono">
+                    <thead>
+                      <tr className="text-slate-600">
+                        <th className="text-left font-normal"></th>
+                        <th className="text-right font-normal">Cl</th>
+                        <th className="text-right font-normal">Cd</th>
+                        <th className="text-right font-normal">Cm</th>
+                        <th className="text-right font-normal">KUTTA</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.bodies.map((body, index) => (
+                        <tr key={index} className={body.stalled ? 'text-amber-400' : 'text-slate-300'}>
+                          <td className="text-slate-500">{index === 0 ? 'MAIN' : `#${index + 1}`}</td>
+                          <td className="text-right">{body.liftCoefficient.toFixed(3)}</td>
+                          <td className="text-right">{body.dragCoefficient.toFixed(4)}</td>
+                          <td className="text-right">{body.momentCoefficient.toFixed(3)}</td>
+                          <td className="text-right">{body.kuttaCondition ? 'YES' : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
-                <div className="text-sm text-slate-300 leading-relaxed font-light">
-                    {result.explanation}
+              )}
+
+              {/* Boundary Layer Summary */}
+              <div className="bg-slate-950 p-3 rounded border border-slate-800">
+                <div className="flex justify-between items-center mb-2">
+                  <div className="text-slate-500 text-[10px] uppercase">
+                    Boundary Layer (Thwaites / Michel / Head){result.bodies.length > 1 ? ' · main body' : ''}
+                  </div>
+                  {result.stalled && (
+                    <span className="text-[10px] font-mono text-amber-400 border border-amber-500/40 rounded px-1.5">STALLED</span>
+                  )}
                 </div>
-            </div>
+                <table className="w-full text-[10px] font-mono">
+                  <thead>
+                    <tr className="text-slate-600">
+                      <th className="text-left font-normal"></th>
+                      <th className="text-right font-normal">TRANS</th>
+                      <th className="text-right font-normal">SEP</th>
+                      <th className="text-right font-normal">θ mm</th>
+                      <th className="text-right font-normal">H</th>
+                      <th className="text-right font-normal">Cd</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.axisymmetric ? (
+                      <BoundaryLayerRow label="MERIDIAN" surface={result.boundaryLayer.upper} />
+                    ) : (
+                      <>
+                        <BoundaryLayerRow label="UPPER" surface={result.boundaryLayer.upper} />
+                        <BoundaryLayerRow label="LOWER" surface={result.boundaryLayer.lower} />
+                      </>
+                    )}
+                  </tbody>
+                </table>
+                <div className="text-[9px] text-slate-600 font-mono mt-2">x/c positions · * transition via laminar separation bubble</div>
+              </div>
 
-            {/* Recommendations */}
-            <div className="space-y-2">
-                 <div className="flex items-center gap-2 text-amber-500 mb-1">
-                    <AlertTriangle className="w-4 h-4" />
-                    <h3 className="text-xs font-bold uppercase tracking-wider">Recommendations</h3>
+              {/* Pressure Distribution Chart */}
+              {/* Aerodynamic convention: Cp axis inverted so suction (negative Cp) plots upwards */}
+              {cp && (
+                <div className="bg-slate-950 rounded border border-slate-800 p-2">
+                  <div className="flex justify-between px-1 text-[10px] font-mono">
+                    <span className="text-slate-500">PRESSURE COEFFICIENT (-Cp)</span>
+                    <span className="flex gap-3">
+                      <span className="text-sky-400">UPPER</span>
+                      <span className="text-orange-400">LOWER</span>
+                    </span>
+                  </div>
+                  <div className="h-56 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart margin={{ top: 8, right: 8, bottom: 12, left: -12 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                          <XAxis
+                            dataKey="x"
+                            type="number"
+                            domain={[0, 1]}
+                            ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+                            stroke="#475569"
+                            fontSize={10}
+                            label={{ value: 'x/c', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+                          />
+                          <YAxis dataKey="cp" reversed stroke="#475569" fontSize={10} tickFormatter={(val) => val.toFixed(1)} domain={['auto', 'auto']} />
+                          <Tooltip 
+                              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' }}
+                              formatter={(val: number) => val.toFixed(3)}
+                              labelFormatter={(val: number) => `x/c ${(+val).toFixed(3)}`}
+                          />
+                          <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
+                          {result.ramPressure && (
+                            <ReferenceLine y={result.ramPressure.internalCp} stroke="#fbbf24" strokeDasharray="4 2" />
+                          )}
+                          <Line data={cp.upper} type="monotone" dataKey="cp" name="Upper" stroke="#38bdf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+                          <Line data={cp.lower} type="monotone" dataKey="cp" name="Lower" stroke="#fb923c" strokeWidth={2} dot={false} isAnimationActive={false} />
+                          <ReferenceDot x={cp.stagnation.x} y={1} r={3} fill="#e2e8f0" stroke="none" />
+                          <ReferenceDot x={cp.suctionPeak.x} y={cp.suctionPeak.cp} r={4} fill="#f43f5e" stroke="none" />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 px-1 pt-1 text-[10px] font-mono text-slate-500">
+                    <span>STAGNATION <span className="text-slate-300">{cp.stagnation.x.toFixed(3)}c {cp.stagnation.surface.toUpperCase()}</span></span>
+                    <span>Cp MIN <span className="text-rose-400">{cp.suctionPeak.cp.toFixed(2)}</span> <span className="text-slate-300">@ {cp.suctionPeak.x.toFixed(3)}c {cp.suctionPeak.surface.toUpperCase()}</span></span>
+                  </div>
+                  {result.ramPressure && (
+                    <div className="grid grid-cols-2 gap-2 px-1 pt-1 text-[10px] font-mono text-slate-500">
+                      <span>INTERNAL Cp <span className="text-amber-400">{result.ramPressure.internalCp.toFixed(2)}</span></span>
+                      <span>
+                        COLLAPSE MARGIN{' '}
+                        <span className={result.ramPressure.collapseMargin < 0 ? 'text-rose-400' : 'text-emerald-400'}>
+                          {result.ramPressure.collapseMargin >= 0 ? '+' : ''}{result.ramPressure.collapseMargin.toFixed(2)}
+                        </span>{' '}
+                        <span className="text-slate-300">@ {result.ramPressure.peakCp.x.toFixed(3)}c</span>
+                      </span>
+                      {result.ramPressure.collapseMargin < 0 && (
+                        <span className="col-span-2 text-rose-400">
+                          Outside pressure on the upper nose exceeds the ram pressure: frontal collapse
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
-                <ul className="text-xs text-slate-400 space-y-1 list-none">
-                    {result.recommendations.map((rec, idx) => (
-                        <li key={idx} className="flex gap-2">
-                            <span className="text-amber-500/50">›</span>
-                            {rec}
-                        </li>
-                    ))}
-                </ul>
+              )}
+
+              {/* AI Explanation */}
+              <div className="space-y-3 border-t border-slate-800 pt-4">
+                  <div className="flex items-center gap-2 text-sky-500 mb-1">
+                      <TrendingUp className="w-4 h-4" />
+                      <h3 className="text-xs font-bold uppercase tracking-wider">Expert Analysis</h3>
+                  </div>
+                  <div className="text-sm text-slate-300 leading-relaxed font-light">
+                      {result.explanation}
+                  </div>
+              </div>
+
+              {/* Recommendations */}
+              <div className="space-y-2">
+                   <div className="flex items-center gap-2 text-amber-500 mb-1">
+                      <AlertTriangle className="w-4 h-4" />
+                      <h3 className="text-xs font-bold uppercase tracking-wider">Recommendations</h3>
+                  </div>
+                  <ul className="text-xs text-slate-400 space-y-1 list-none">
+                      {result.recommendations.map((rec, idx) => (
+                          <li key={idx} className="flex gap-2">
+                              <span className="text-amber-500/50">›</span>
+                              {rec}
+                          </li>
+                      ))}
+                  </ul>
+              </div>
             </div>
-          </div>
+          )}
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ControlSweepResult, WingControlInput } from '../types';
+import { STALL_SEARCH_LIMIT } from '../services/polar';
+import { PolarChart } from './PolarPanel';
+import { ReferenceLine } from 'recharts';
+
+interface ControlSweepPanelProps {
+  loading: boolean;
+  result: ControlSweepResult | null;
+  onRun?: (input: WingControlInput) => void; // absent for shapes without brakes or bar
+}
+
+const LABELS: Record<WingControlInput, string> = {
+  brake: 'BRAKE',
+  speedBar: 'SPEED BAR'
+};
+
+// Margins below this many degrees are flagged: a gust or a pitch-up takes them
+const MARGIN_WARNING = 2;
+
+const formatAngle = (angle: number | null) => (angle === null ? '—' : `${angle.toFixed(1)}°`);
+
+const ControlSweepPanel: React.FC<ControlSweepPanelProps> = ({ loading, result, onRun }) => {
+  const [input, setInput] = useState<WingControlInput>('brake');
+
+  if (!onRun) {
+    return (
+      <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+        Brakes and speed bar act on wing sections: choose the NACA, imported or paraglider shape.
+      </div>
+    );
+  }
+
+  const held: WingControlInput = result?.input === 'brake' ? 'speedBar' : 'brake';
+  const xLabel = result ? `${LABELS[result.input].toLowerCase()} travel (%)` : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+        Runs the main section from neutral to full travel of one input at the flown incidence,
+        the other input held where it is set. The stall margin is how many degrees more
+        incidence the section takes before it stalls (— when it holds to {STALL_SEARCH_LIMIT}°).
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+        {(Object.keys(LABELS) as WingControlInput[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setInput(key)}
+            className={`py-1 rounded text-[10px] font-mono transition-all ${
+              input === key ? 'bg-sky-500/10 text-sky-400' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onRun(input)}
+        disabled={loading}
+        className={`w-full py-3 px-4 rounded border font-mono text-sm tracking-wider transition-all uppercase ${
+          loading
+            ? 'bg-slate-800 border-slate-600 text-slate-500 cursor-wait'
+            : 'bg-sky-900/30 border-sky-500 text-sky-400 hover:bg-sky-900/50 shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+        }`}
+      >
+        {loading ? 'SWEEPING...' : `SWEEP ${LABELS[input]}`}
+      </button>
+
+      {result && result.points.length > 0 && (
+        <div className="space-y-4 animate-fade-in">
+          <div className="text-[10px] font-mono text-slate-500">
+            α = {result.alpha}°, {LABELS[held]} HELD AT {Math.round(result.controls[held] * 100)}%
+          </div>
+
+          <table className="w-full text-[10px] font-mono">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="py-1 text-left font-normal">{LABELS[result.input]}</th>
+                <th className="py-1 text-right font-normal">Cl</th>
+                <th className="py-1 text-right font-normal">Cd</th>
+                <th className="py-1 text-right font-normal">Cm</th>
+                <th className="py-1 text-right font-normal">STALL α</th>
+                <th className="py-1 text-right font-normal">MARGIN</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.points.map(p => (
+                <tr key={p.travel} className="border-t border-slate-800">
+                  <td className="py-1.5 text-slate-300">{p.travel.toFixed(0)}%</td>
+                  <td className="py-1.5 text-right text-emerald-400">{p.cl.toFixed(3)}</td>
+                  <td className="py-1.5 text-right text-red-400">{p.cd.toFixed(4)}</td>
+                  <td className="py-1.5 text-right text-violet-400">{p.cm.toFixed(3)}</td>
+                  <td className="py-1.5 text-right text-slate-300">{formatAngle(p.stallAngle)}</td>
+                  <td className={`py-1.5 text-right ${p.stalled || (p.stallMargin ?? Infinity) < MARGIN_WARNING ? 'text-amber-400' : 'text-slate-300'}`}>
+                    {p.stalled ? 'STALLED' : formatAngle(p.stallMargin)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <PolarChart title="Cl vs TRAVEL" data={result.points} xKey="travel" yKey="cl" color="#34d399" xLabel={xLabel} />
+          <PolarChart title="Cm vs TRAVEL" data={result.points} xKey="travel" yKey="cm" color="#a78bfa" xLabel={xLabel} />
+          <PolarChart title="STALL MARGIN (deg)" data={result.points} xKey="travel" yKey="stallMargin" color="#f59e0b" xLabel={xLabel}>
+            <ReferenceLine y={MARGIN_WARNING} stroke="#f59e0b" strokeDasharray="4 2" />
+          </PolarChart>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ControlSweepPanel;
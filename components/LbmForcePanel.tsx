@@ -0,0 +1,144 @@
+import React from 'react';
+import { LbmForceResult, LbmWakeResult, PhysicsResult } from '../types';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, Legend
+} from 'recharts';
+
+interface LbmForcePanelProps {
+  result: LbmForceResult | null;
+  wake: LbmWakeResult | null; // Time-averaged wake and its momentum-integral drag
+  panelResult: PhysicsResult | null; // Panel-method point for comparison
+}
+
+const tooltipStyle = { backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' };
+
+const LbmForcePanel: React.FC<LbmForcePanelProps> = ({ result, wake, panelResult }) => {
+  if (!result) {
+    return (
+      <div className="text-slate-500 text-xs font-mono text-center py-8">
+        Run the tunnel to measure forces on the obstacle.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-slate-950 p-3 rounded border border-slate-800">
+          <div className="text-slate-500 text-[10px] uppercase mb-1">Mean Cl</div>
+          <div className="text-lg font-mono text-emerald-400">{result.meanCl.toFixed(3)}</div>
+          <div className="text-[10px] font-mono text-slate-500">
+            now {result.cl.toFixed(3)}{panelResult ? ` · panel ${panelResult.liftCoefficient.toFixed(3)}` : ''}
+          </div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded border border-slate-800">
+          <div className="text-slate-500 text-[10px] uppercase mb-1">Mean Cd</div>
+          <div className="text-lg font-mono text-red-400">{result.meanCd.toFixed(3)}</div>
+          <div className="text-[10px] font-mono text-slate-500">
+            now {result.cd.toFixed(3)}{panelResult ? ` · panel ${panelResult.dragCoefficient.toFixed(3)}` : ''}
+          </div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded border border-slate-800">
+          <div className="text-slate-500 text-[10px] uppercase mb-1">Lift / Drag per span</div>
+          <div className="text-sm font-mono text-slate-300">
+            {result.liftPerSpan.toFixed(1)} / {result.dragPerSpan.toFixed(1)} N/m
+          </div>
+          <div className="text-[10px] font-mono text-slate-500">
+            lattice {result.latticeLift.toExponential(2)} / {result.latticeDrag.toExponential(2)}
+          </div>
+        </div>
+        <div className="bg-slate-950 p-3 rounded border border-slate-800">
+          <div className="text-slate-500 text-[10px] uppercase mb-1">Strouhal</div>
+          <div className="text-sm font-mono text-blue-400">
+            {result.strouhal !== null ? result.strouhal.toFixed(3) : '—'}
+          </div>
+          <div className="text-[10px] font-mono text-slate-500">
+            {result.sheddingFrequency !== null ? `${result.sheddingFrequency.toFixed(2)} Hz shedding` : 'no shedding detected'}
+          </div>
+        </div>
+        {result.internalCp !== null && (
+          <div className="bg-slate-950 p-3 rounded border border-slate-800 col-span-2">
+            <div className="text-slate-500 text-[10px] uppercase mb-1">Internal pressure (ram)</div>
+            <div className="text-sm font-mono text-amber-400">Cp {result.internalCp.toFixed(3)}</div>
+            <div className="text-[10px] font-mono text-slate-500">
+              cells inside the canopy, time-averaged once the averages run{panelResult?.ramPressure ? ` · panel ${panelResult.ramPressure.internalCp.toFixed(3)}` : ''}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="h-48 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
+        <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">Cl / Cd vs TIME</div>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={result.samples} margin={{ top: 16, right: 8, bottom: 12, left: -12 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['auto', 'auto']}
+              stroke="#475569"
+              fontSize={10}
+              tickFormatter={(val) => (+val).toFixed(2)}
+              label={{ value: 't (s)', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+            />
+            <YAxis stroke="#475569" fontSize={10} tickFormatter={(val) => (+val).toFixed(1)} domain={['auto', 'auto']} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(val: number) => val.toFixed(4)} labelFormatter={(t) => `${(+t).toFixed(3)} s`} />
+            <Legend wrapperStyle={{ fontSize: '10px' }} />
+            <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="cl" name="Cl" stroke="#34d399" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="cd" name="Cd" stroke="#f87171" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {wake && (
+        <div className="space-y-2">
+          <div className="bg-slate-950 p-3 rounded border border-slate-800 flex justify-between items-end">
+            <div>
+              <div className="text-slate-500 text-[10px] uppercase mb-1">Wake survey Cd</div>
+              <div className="text-lg font-mono text-red-400">{wake.cd !== null ? wake.cd.toFixed(3) : '—'}</div>
+            </div>
+            <div className="text-[10px] font-mono text-slate-500 text-right">
+              x/c {wake.station.toFixed(2)}<br />
+              {wake.samples > 0
+                ? `${wake.samples} steps · ${wake.averagedTime.toFixed(2)} s averaged`
+                : `warm-up ${wake.warmupRemaining} steps`}
+            </div>
+          </div>
+
+          {wake.profile.length > 0 && (
+            <div className="h-40 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
+              <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">MEAN WAKE u/V</div>
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={wake.profile} layout="vertical" margin={{ top: 16, right: 8, bottom: 12, left: -12 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                  <XAxis
+                    dataKey="velocity"
+                    type="number"
+                    domain={['auto', 'auto']}
+                    stroke="#475569"
+                    fontSize={10}
+                    tickFormatter={(val) => (+val).toFixed(1)}
+                    label={{ value: 'u/V', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+                  />
+                  <YAxis dataKey="y" type="number" domain={['auto', 'auto']} stroke="#475569" fontSize={10} tickFormatter={(val) => (+val).toFixed(1)} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(val: number) => val.toFixed(3)} labelFormatter={(y) => `y/c ${(+y).toFixed(2)}`} />
+                  <ReferenceLine x={1} stroke="#64748b" strokeDasharray="3 3" />
+                  <Line type="monotone" dataKey="velocity" name="u/V" stroke="#f87171" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+        Momentum exchange at the bounce-back links over {result.steps} lattice steps; means exclude the first
+        half as start-up transient. Lattice Re {result.latticeReynolds.toFixed(0)}. The wake survey
+        balances the mean momentum flux between the inlet and a column behind the model.
+      </div>
+    </div>
+  );
+};
+
+export default LbmForcePanel;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { PolarResult } from '../types';
+import { PolarRange } from '../services/polar';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, ReferenceDot
+} from 'recharts';
+
+interface PolarPanelProps {
+  loading: boolean;
+  result: PolarResult | null;
+  onRun: (range: PolarRange) => void;
+}
+
+const tooltipStyle = { backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' };
+
+interface PolarChartProps {
+  title: string;
+  data: object[];
+  xKey: string;
+  yKey: string;
+  color: string;
+  xLabel: string;
+  // Monotone cubic assumes y is a function of x; the drag polar turns back on itself
+  curve?: 'monotone' | 'linear';
+  children?: React.ReactNode;
+}
+
+export const PolarChart: React.FC<PolarChartProps> = ({ title, data, xKey, yKey, color, xLabel, curve, children }) => (
+  <div className="h-44 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
+    <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">{title}</div>
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={data} margin={{ top: 16, right: 8, bottom: 12, left: -12 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+        <XAxis
+          dataKey={xKey}
+          type="number"
+          domain={['auto', 'auto']}
+          stroke="#475569"
+          fontSize={10}
+          tickFormatter={(val) => (+val).toFixed(xKey === 'cd' ? 3 : 0)}
+          label={{ value: xLabel, position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+        />
+        <YAxis stroke="#475569" fontSize={10} tickFormatter={(val) => (+val).toFixed(1)} domain={['auto', 'auto']} />
+        <Tooltip contentStyle={tooltipStyle} itemStyle={{ color }} formatter={(val: number) => val.toFixed(4)} />
+        <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
+        <Line type={curve ?? 'monotone'} dataKey={yKey} stroke={color} strokeWidth={2} dot={{ r: 1.5 }} isAnimationActive={false} />
+        {children}
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+const PolarPanel: React.FC<PolarPanelProps> = ({ loading, result, onRun }) => {
+  const [range, setRange] = useState<PolarRange>({ alphaStart: -6, alphaEnd: 20, alphaStep: 1 });
+
+  const updateRange = (key: keyof PolarRange, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isNaN(parsed)) setRange({ ...range, [key]: parsed });
+  };
+
+  const clMax = result?.clMax;
+  const bestLD = result?.bestLD;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {([
+          ['alphaStart', 'α START'],
+          ['alphaEnd', 'α END'],
+          ['alphaStep', 'STEP']
+        ] as [keyof PolarRange, string][]).map(([key, label]) => (
+          <label key={key} className="flex flex-col gap-1 text-[10px] font-mono text-slate-500">
+            {label}
+            <input
+              type="number"
+              step="0.5"
+              value={range[key]}
+              onChange={(e) => updateRange(key, e.target.value)}
+              className="bg-slate-950 border border-slate-800 rounded px-2 py-1 text-sky-400 text-xs"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onRun(range)}
+        disabled={loading}
+        className={`w-full py-3 px-4 rounded border font-mono text-sm tracking-wider transition-all uppercase ${
+          loading
+            ? 'bg-slate-800 border-slate-600 text-slate-500 cursor-wait'
+            : 'bg-sky-900/30 border-sky-500 text-sky-400 hover:bg-sky-900/50 shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+        }`}
+      >
+        {loading ? 'SWEEPING...' : 'RUN POLAR'}
+      </button>
+
+      {result && result.points.length > 0 && (
+        <div className="space-y-4 animate-fade-in">
+          {/* Characteristic Points */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-slate-950 p-3 rounded border border-slate-800">
+              <div className="text-slate-500 text-[10px] uppercase mb-1">Cl max</div>
+              <div className="text-lg font-mono text-emerald-400">
+                {clMax ? `${clMax.cl.toFixed(3)} @ ${clMax.alpha.toFixed(1)}°` : '—'}
+              </div>
+            </div>
+            <div className="bg-slate-950 p-3 rounded border border-slate-800">
+              <div className="text-slate-500 text-[10px] uppercase mb-1">Stall Angle</div>
+              <div className="text-lg font-mono text-amber-400">
+                {result.stallAngle !== null ? `${result.stallAngle.toFixed(1)}°` : 'NOT REACHED'}
+              </div>
+            </div>
+            <div className="bg-slate-950 p-3 rounded border border-slate-800">
+              <div className="text-slate-500 text-[10px] uppercase mb-1">Zero-Lift Angle</div>
+              <div className="text-lg font-mono text-slate-300">
+                {result.zeroLiftAngle !== null ? `${result.zeroLiftAngle.toFixed(2)}°` : '—'}
+              </div>
+            </div>
+            <div className="bg-slate-950 p-3 rounded border border-slate-800">
+              <div className="text-slate-500 text-[10px] uppercase mb-1">Best L/D</div>
+              <div className="text-lg font-mono text-blue-400">
+                {bestLD ? `${bestLD.ld.toFixed(1)} @ ${bestLD.alpha.toFixed(1)}°` : '—'}
+              </div>
+            </div>
+          </div>
+
+          <PolarChart title="Cl vs α" data={result.points} xKey="alpha" yKey="cl" color="#34d399" xLabel="α (deg)">
+            {clMax && <ReferenceDot x={clMax.alpha} y={clMax.cl} r={4} fill="#34d399" stroke="none" />}
+            {result.stallAngle !== null && <ReferenceLine x={result.stallAngle} stroke="#f59e0b" strokeDasharray="4 2" />}
+            {result.zeroLiftAngle !== null && <ReferenceDot x={result.zeroLiftAngle} y={0} r={3} fill="#e2e8f0" stroke="none" />}
+          </PolarChart>
+
+          <PolarChart title="DRAG POLAR (Cl vs Cd)" data={result.points} xKey="cd" yKey="cl" color="#f87171" xLabel="Cd" curve="linear">
+            {bestLD && <ReferenceDot x={bestLD.cd} y={bestLD.cl} r={4} fill="#60a5fa" stroke="none" />}
+          </PolarChart>
+
+          <PolarChart title="Cm vs α" data={result.points} xKey="alpha" yKey="cm" color="#a78bfa" xLabel="α (deg)">
+            {result.stallAngle !== null && <ReferenceLine x={result.stallAngle} stroke="#f59e0b" strokeDasharray="4 2" />}
+          </PolarChart>
+
+          <PolarChart title="L/D vs α" data={result.points} xKey="alpha" yKey="ld" color="#60a5fa" xLabel="α (deg)">
+            {bestLD && <ReferenceDot x={bestLD.alpha} y={bestLD.ld} r={4} fill="#60a5fa" stroke="none" />}
+          </PolarChart>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PolarPanel;
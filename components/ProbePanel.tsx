@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { ProbeChannel, ProbeRecord } from '../types';
+import { dominantFrequency, powerSpectrum, probesToCsv } from '../services/lbmProbes';
+import { downloadText } from '../services/download';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid
+} from 'recharts';
+import { Download, X } from 'lucide-react';
+
+interface ProbePanelProps {
+  records: ProbeRecord[];
+  onRemove: (id: number) => void;
+}
+
+// Points handed to the time-series chart
+const CHART_POINTS = 400;
+
+const CHANNELS: [ProbeChannel, string, string][] = [
+  ['ux', 'Ux', 'm/s'],
+  ['uy', 'Uy', 'm/s'],
+  ['speed', '|U|', 'm/s'],
+  ['cp', 'Cp', '']
+];
+
+const tooltipStyle = { backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' };
+
+const ProbePanel: React.FC<ProbePanelProps> = ({ records, onRemove }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [channel, setChannel] = useState<ProbeChannel>('uy');
+
+  const record = records.find(r => r.probe.id === selectedId) ?? records[0] ?? null;
+  const values = record?.channels[channel];
+
+  const series = useMemo(() => {
+    if (!record || !values) return [];
+    const stride = Math.max(1, Math.ceil(values.length / CHART_POINTS));
+    const points: { time: number; value: number }[] = [];
+    for (let k = 0; k < values.length; k += stride) {
+      points.push({ time: (record.firstStep + k) * record.sampleInterval, value: values[k] });
+    }
+    return points;
+  }, [record, values]);
+
+  const spectrum = useMemo(
+    () => (record && values ? powerSpectrum(values, record.sampleInterval).filter(p => p.power > 0) : []),
+    [record, values]
+  );
+
+  const stats = useMemo(() => {
+    if (!values || values.length === 0) return null;
+    let mean = 0;
+    values.forEach(v => { mean += v; });
+    mean /= values.length;
+    let variance = 0;
+    values.forEach(v => { variance += (v - mean) ** 2; });
+    return { mean, rms: Math.sqrt(variance / values.length) };
+  }, [values]);
+
+  if (records.length === 0) {
+    return (
+      <div className="text-slate-500 text-xs font-mono text-center py-8">
+        Pick the probe tool on the tunnel and click to place probes.
+      </div>
+    );
+  }
+
+  const peak = dominantFrequency(spectrum);
+  const unit = CHANNELS.find(([key]) => key === channel)?.[2] ?? '';
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex flex-wrap gap-1">
+        {records.map(r => (
+          <div
+            key={r.probe.id}
+            className={`flex items-center rounded border text-[10px] font-mono ${
+              r === record ? 'bg-pink-500/10 border-pink-500 text-pink-400' : 'bg-slate-950 border-slate-800 text-slate-400'
+            }`}
+          >
+            <button onClick={() => setSelectedId(r.probe.id)} className="px-2 py-1">
+              P{r.probe.id} <span className="text-slate-500">({r.position.x.toFixed(2)}c, {r.position.y.toFixed(2)}c)</span>
+            </button>
+            <button onClick={() => onRemove(r.probe.id)} className="pr-1.5 text-slate-500 hover:text-red-400" title="Remove probe">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+        {CHANNELS.map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setChannel(key)}
+            className={`py-1 rounded text-[10px] font-mono transition-all ${
+              channel === key ? 'bg-sky-500/10 text-sky-400' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {record && stats && (
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-slate-950 p-3 rounded border border-slate-800">
+            <div className="text-slate-500 text-[10px] uppercase mb-1">Mean</div>
+            <div className="text-sm font-mono text-slate-300">{stats.mean.toFixed(3)} {unit}</div>
+          </div>
+          <div className="bg-slate-950 p-3 rounded border border-slate-800">
+            <div className="text-slate-500 text-[10px] uppercase mb-1">RMS</div>
+            <div className="text-sm font-mono text-slate-300">{stats.rms.toFixed(3)} {unit}</div>
+          </div>
+          <div className="bg-slate-950 p-3 rounded border border-slate-800">
+            <div className="text-slate-500 text-[10px] uppercase mb-1">Peak</div>
+            <div className="text-sm font-mono text-blue-400">{peak !== null ? `${peak.toFixed(2)} Hz` : '—'}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="h-40 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
+        <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">TIME SERIES</div>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={series} margin={{ top: 16, right: 8, bottom: 12, left: -12 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['auto', 'auto']}
+              stroke="#475569"
+              fontSize={10}
+              tickFormatter={(val) => (+val).toFixed(2)}
+              label={{ value: 't (s)', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+            />
+            <YAxis stroke="#475569" fontSize={10} tickFormatter={(val) => (+val).toFixed(1)} domain={['auto', 'auto']} />
+            <Tooltip contentStyle={tooltipStyle} formatter={(val: number) => val.toFixed(4)} labelFormatter={(t) => `${(+t).toFixed(3)} s`} />
+            <Line type="monotone" dataKey="value" stroke="#f472b6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-40 w-full bg-slate-950 rounded border border-slate-800 p-2 relative">
+        <div className="absolute top-2 left-3 text-[10px] text-slate-500 font-mono z-10">POWER SPECTRUM</div>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={spectrum} margin={{ top: 16, right: 8, bottom: 12, left: -12 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="frequency"
+              type="number"
+              domain={['auto', 'auto']}
+              stroke="#475569"
+              fontSize={10}
+              tickFormatter={(val) => (+val).toFixed(1)}
+              label={{ value: 'f (Hz)', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+            />
+            <YAxis
+              scale="log"
+              domain={['auto', 'auto']}
+              allowDataOverflow
+              stroke="#475569"
+              fontSize={10}
+              tickFormatter={(val) => (+val).toExponential(0)}
+            />
+            <Tooltip contentStyle={tooltipStyle} formatter={(val: number) => val.toExponential(3)} labelFormatter={(f) => `${(+f).toFixed(2)} Hz`} />
+            <Line type="monotone" dataKey="power" stroke="#60a5fa" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <button
+        onClick={() => downloadText('probes.csv', probesToCsv(records))}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded border border-slate-700 bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] font-mono transition-all"
+      >
+        <Download className="w-3 h-3" />
+        EXPORT CSV
+      </button>
+
+      <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+        Sampled at the probe cell every lattice step; the last {record ? record.channels.ux.length : 0} steps
+        are kept. Cp is referenced to the upstream edge.
+      </div>
+    </div>
+  );
+};
+
+export default ProbePanel;
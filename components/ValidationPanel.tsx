@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ValidationCaseId, ValidationReport } from '../types';
+import { runValidation } from '../services/validation';
+import {
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine
+} from 'recharts';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+const tooltipStyle = { backgroundColor: '#0f172a', borderColor: '#334155', color: '#f1f5f9', fontSize: '12px' };
+
+const LABELS: Record<ValidationCaseId, string> = {
+  cylinder: 'CYLINDER',
+  joukowski: 'JOUKOWSKI',
+  'karman-trefftz': 'K–TREFFTZ'
+};
+
+const formatOrder = (order: number | null) => (order === null ? '—' : order.toFixed(2));
+
+const ValidationPanel: React.FC = () => {
+  const [loading, setLoading] = useState(false);
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  const [caseId, setCaseId] = useState<ValidationCaseId>('joukowski');
+
+  const run = () => {
+    setLoading(true);
+    // Let the button repaint before the (synchronous) runs block the thread
+    setTimeout(() => {
+      try {
+        setReport(runValidation());
+      } catch (error) {
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    }, 0);
+  };
+
+  const selected = report?.cases.find(c => c.id === caseId) ?? report?.cases[0] ?? null;
+  const comparison = selected?.comparison;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+        Runs the panel solver on bodies with exact potential-flow solutions and measures how the
+        error falls as the panels are refined. Viscous corrections are off.
+      </div>
+
+      <button
+        onClick={run}
+        disabled={loading}
+        className={`w-full py-3 px-4 rounded border font-mono text-sm tracking-wider transition-all uppercase ${
+          loading
+            ? 'bg-slate-800 border-slate-600 text-slate-500 cursor-wait'
+            : 'bg-sky-900/30 border-sky-500 text-sky-400 hover:bg-sky-900/50 shadow-[0_0_15px_rgba(14,165,233,0.3)]'
+        }`}
+      >
+        {loading ? 'VALIDATING...' : 'RUN VALIDATION'}
+      </button>
+
+      {report && selected && comparison && (
+        <div className="space-y-4 animate-fade-in">
+          <div className="grid grid-cols-3 gap-1 bg-slate-950 p-1 rounded border border-slate-800">
+            {report.cases.map(c => (
+              <button
+                key={c.id}
+                onClick={() => setCaseId(c.id)}
+                className={`flex items-center justify-center gap-1 py-1 rounded text-[10px] font-mono transition-all ${
+                  c === selected ? 'bg-sky-500/10 text-sky-400' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {c.passed
+                  ? <CheckCircle2 className="w-3 h-3 text-emerald-400" />
+                  : <XCircle className="w-3 h-3 text-rose-400" />}
+                {LABELS[c.id]}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-slate-950 p-3 rounded border border-slate-800 space-y-1">
+            <div className="flex justify-between text-xs font-mono">
+              <span className="text-slate-300">{selected.name}</span>
+              <span className={selected.passed ? 'text-emerald-400' : 'text-rose-400'}>{selected.passed ? 'PASS' : 'FAIL'}</span>
+            </div>
+            <div className="text-[10px] font-mono text-slate-500">{selected.description}</div>
+            <div className="text-[10px] font-mono text-slate-500">
+              EXACT Cl{' '}
+              {selected.angles.map((angle, i) => (
+                <span key={angle} className="text-slate-300 mr-2">{angle}°: {selected.exactCl[i].toFixed(4)}</span>
+              ))}
+            </div>
+          </div>
+
+          <table className="w-full text-[10px] font-mono">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="py-1 text-left font-normal">PANELS</th>
+                <th className="py-1 text-right font-normal">Cp RMS</th>
+                <th className="py-1 text-right font-normal">Cp MAX</th>
+                <th className="py-1 text-right font-normal">|ΔCl|</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.runs.map(run => (
+                <tr key={run.panels} className="border-t border-slate-800">
+                  <td className="py-1.5 text-slate-300">{run.panels}</td>
+                  <td className="py-1.5 text-right text-slate-300">{run.cpRms.toExponential(2)}</td>
+                  <td className="py-1.5 text-right text-slate-300">{run.cpMax.toExponential(2)}</td>
+                  <td className="py-1.5 text-right text-slate-300">{run.clError.toExponential(2)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-700">
+                <td className="py-1.5 text-slate-500">ORDER</td>
+                <td className="py-1.5 text-right text-sky-400">{formatOrder(selected.order.cpRms)}</td>
+                <td className="py-1.5 text-right text-sky-400">{formatOrder(selected.order.cpMax)}</td>
+                <td className="py-1.5 text-right text-sky-400">{formatOrder(selected.order.cl)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {/* Aerodynamic convention: Cp axis inverted so suction (negative Cp) plots upwards */}
+          <div className="bg-slate-950 rounded border border-slate-800 p-2">
+            <div className="flex justify-between px-1 text-[10px] font-mono">
+              <span className="text-slate-500">Cp AT {comparison.panels} PANELS, α = {comparison.alpha}°</span>
+              <span className="flex gap-3">
+                <span className="text-slate-300">— EXACT</span>
+                <span className="text-slate-300">• SOLVER</span>
+              </span>
+            </div>
+            <div className="h-56 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart margin={{ top: 8, right: 8, bottom: 12, left: -12 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                  <XAxis
+                    dataKey="x"
+                    type="number"
+                    domain={[0, 1]}
+                    ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+                    stroke="#475569"
+                    fontSize={10}
+                    label={{ value: 'x/c', position: 'insideBottom', offset: -4, fill: '#64748b', fontSize: 10 }}
+                  />
+                  <YAxis reversed stroke="#475569" fontSize={10} tickFormatter={(val) => (+val).toFixed(1)} domain={['auto', 'auto']} />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    formatter={(val: number) => val.toFixed(3)}
+                    labelFormatter={(val: number) => `x/c ${(+val).toFixed(3)}`}
+                  />
+                  <ReferenceLine y={0} stroke="#64748b" strokeDasharray="3 3" />
+                  <Line data={comparison.upper} type="monotone" dataKey="exact" name="Exact upper" stroke="#38bdf8" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  <Line data={comparison.lower} type="monotone" dataKey="exact" name="Exact lower" stroke="#fb923c" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  <Line data={comparison.upper} dataKey="computed" name="Solver upper" stroke="none" dot={{ r: 2, fill: '#38bdf8', stroke: 'none' }} isAnimationActive={false} />
+                  <Line data={comparison.lower} dataKey="computed" name="Solver lower" stroke="none" dot={{ r: 2, fill: '#fb923c', stroke: 'none' }} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="text-[10px] font-mono text-slate-500 leading-relaxed">
+            Errors are the worst over α = {selected.angles.join(', ')}°, taken at the contour nodes
+            (on the exact surface) apart from the trailing edge. The order is the slope of log error
+            against log panel count; at second order, halving the panel size quarters the error. {report.passed ? 'All cases pass.' : 'Some cases fail.'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
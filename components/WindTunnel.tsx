@@ -1,53 +1,203 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { ShapeType, Point, SimulationParams } from '../types';
-import { Play, Pause, RotateCcw, AlertTriangle, MousePointer2 } from 'lucide-react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import {
+  ShapeType, Point, SimulationParams, LbmForceResult, FlowFieldMode, FlowProbe, ProbeRecord, LbmWakeResult,
+  ImportedAirfoil
+} from '../types';
+import {
+  Play, Pause, RotateCcw, AlertTriangle, MousePointer2, Cloud, Waves, Route, Eraser, Crosshair, Download, TimerReset
+} from 'lucide-react';
+import { findChordLine, preprocessGeometry, PreparedContour, rotatePoints, toPhysicalFrame } from '../services/geometry';
+import { airfoilContour } from '../services/airfoil';
+import { paragliderProfile } from '../services/paraglider';
+import { deformSection } from '../services/controls';
+import { AtmosphereState } from '../services/atmosphere';
+import { BODY_CELL, LbmForce, rasterizePolygon, traceWallLinks, WALL_CELL } from '../services/lbm';
+import { analyseForces, ForceScaling } from '../services/lbmForces';
+import { latticeUnits } from '../services/lbmUnits';
+import {
+  autoRange, colormapGradient, colormapTable, contourSegments, deriveField, FIELD_UNITS, FieldRange, FieldScaling,
+  STATISTICS_MODES, upstreamDensity
+} from '../services/flowField';
+import { advectParticle, TracerPoint, traceStreamline, VelocityGrid } from '../services/flowTracing';
+import { ProbeRecorder } from '../services/lbmProbes';
+import { LbmStatisticsFields, statisticsToCsv, wakeSurvey } from '../services/lbmStatistics';
+import { downloadText } from '../services/download';
+import type { LbmFields, LbmWorkerRequest, LbmWorkerResponse } from '../services/lbmWorker';
 
 /**
- * LATTICE BOLTZMANN METHOD (D2Q9) CONSTANTS
+ * LATTICE BOLTZMANN GRID
  */
-const Q = 9;
-const ROWS = 100; // Simulation Grid Height (Y)
-const COLS = 200; // Simulation Grid Width (X)
-const SCALE = 4; // Visual scaling factor (Canvas pixels per Grid cell)
-
-// D2Q9 Basis Vectors
-const ex = [0, 1, 0, -1, 0, 1, -1, -1, 1];
-const ey = [0, 0, 1, 0, -1, 1, 1, -1, -1];
-const w = [
-  4 / 9,
-  1 / 9, 1 / 9, 1 / 9, 1 / 9,
-  1 / 36, 1 / 36, 1 / 36, 1 / 36
+// Model space the shapes are built and drawn in; the canvas scales it to fit
+const WORLD_WIDTH = 800;
+const WORLD_HEIGHT = 400;
+const GRID_ASPECT = WORLD_WIDTH / WORLD_HEIGHT; // Columns per row
+// Solver steps per animation frame
+const STEPS_PER_FRAME = 4;
+
+const emptyFields = (size: number): LbmFields => ({
+  density: new Float32Array(size).fill(1),
+  ux: new Float32Array(size),
+  uy: new Float32Array(size)
+});
+
+// Lattice steps of force history kept for averaging and the shedding frequency
+const FORCE_HISTORY_STEPS = 8000;
+// Frames between force reports to the analysis panel
+const FORCE_REPORT_FRAMES = 15;
+// Share of the way the automatic colour range moves towards the current frame's range
+const RANGE_EASING = 0.1;
+// Stream function contour lines across the colour range
+const CONTOUR_LEVELS = 20;
+// The lattice counts as Reynolds-matched within this fraction of the target
+const RE_MATCH_TOLERANCE = 0.01;
+
+const FIELD_LABELS: Record<FlowFieldMode, string> = {
+  speed: '|V|',
+  ux: 'u',
+  uy: 'v',
+  vorticity: 'ω',
+  pressure: 'Cp',
+  streamfunction: 'ψ',
+  meanSpeed: 'mean |V|',
+  meanPressure: 'mean Cp',
+  rmsUx: "u' rms",
+  rmsUy: "v' rms",
+  reynoldsStress: "u'v'",
+  tke: 'k'
+};
+
+// Smoke rake: seed points along the rake, and particles kept per streakline
+const RAKE_SEEDS = 16;
+const MAX_STREAK_PARTICLES = 1500;
+const MAX_PATHLINE_POINTS = 4000;
+// Frames between probe reports; each report copies the full probe histories
+const PROBE_REPORT_FRAMES = 30;
+// Frames between fetches of the averaged fields when no averaged mode is on screen, and
+// between wake survey reports
+const STATISTICS_FRAMES = 30;
+// Wake survey column, in chords behind the model centre
+const WAKE_STATION = 2;
+// Rake placed upstream of the model until the user moves it, in world units
+const DEFAULT_RAKE = { start: { x: 80, y: 140 }, end: { x: 80, y: 260 } };
+
+// Canvas tools: place the smoke rake, seed a streamline, release a pathline particle, add a probe
+type CanvasTool = 'rake' | 'streamline' | 'pathline' | 'probe';
+
+const CANVAS_TOOLS: [CanvasTool, typeof Cloud, string][] = [
+  ['rake', Cloud, 'Smoke rake: drag to place'],
+  ['streamline', Waves, 'Streamline: click to seed'],
+  ['pathline', Route, 'Pathline: click to release a particle'],
+  ['probe', Crosshair, 'Probe: click to record the flow there']
 ];
-const opp = [0, 3, 4, 1, 2, 7, 8, 5, 6];
+
+// A unit-chord section (y up) centred on the canvas at 40% of its width
+const sectionToCanvas = (section: Point[], width: number, height: number): Point[] => {
+  const chord = width * 0.4;
+  return section.map(p => ({ x: width / 2 - chord / 2 + p.x * chord, y: height / 2 - p.y * chord }));
+};
+
+const formatLegend = (value: number) =>
+  Math.abs(value) >= 1000 || (value !== 0 && Math.abs(value) < 0.01) ? value.toExponential(1) : value.toPrecision(3);
 
 interface WindTunnelProps {
   shapeType: ShapeType;
   params: SimulationParams;
-  onShapeData: (points: Point[]) => void;
+  atmosphere: AtmosphereState;
+  onShapeData: (bodies: Point[][]) => void; // Main shape first, in metres
+  onForceData?: (forces: LbmForceResult | null) => void; // Momentum-exchange forces on the bodies
+  onBlockage?: (ratio: number) => void; // Frontal height of the bodies over the open tunnel height
+  probes: FlowProbe[];
+  onProbesChange?: (probes: FlowProbe[]) => void;
+  onProbeData?: (records: ProbeRecord[]) => void; // Buffered probe histories in physical units
+  onWakeData?: (wake: LbmWakeResult | null) => void; // Averaging window and the wake survey drag
+  importedAirfoil: ImportedAirfoil | null; // Section read from a .dat file, for ShapeType.IMPORTED
 }
 
-const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData }) => {
+const WindTunnel: React.FC<WindTunnelProps> = ({
+  shapeType, params, atmosphere, onShapeData, onForceData, onBlockage, probes, onProbesChange, onProbeData, onWakeData,
+  importedAirfoil
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [customPoints, setCustomPoints] = useState<Point[]>([]);
+  const [geometryReports, setGeometryReports] = useState<PreparedContour[]>([]);
   
   // Simulation Control State
   const [isPlaying, setIsPlaying] = useState(true);
   const [isUnstable, setIsUnstable] = useState(false);
 
-  // Simulation State (Persistent across renders)
-  const n0 = useRef(new Float32Array(ROWS * COLS * Q)); // Current Distribution
-  const n1 = useRef(new Float32Array(ROWS * COLS * Q)); // Next Distribution
-  const density = useRef(new Float32Array(ROWS * COLS));
-  const ux = useRef(new Float32Array(ROWS * COLS));
-  const uy = useRef(new Float32Array(ROWS * COLS));
-  const barrier = useRef(new Uint8Array(ROWS * COLS)); // 1 = Solid, 0 = Fluid
+  // Grid: `cellSize` world units per lattice cell
+  const rows = params.latticeRows;
+  const cols = rows * GRID_ASPECT;
+  const cellSize = WORLD_WIDTH / cols;
+  const grid = useRef({ cols, rows });
+  const [chordCells, setChordCells] = useState(0); // Main chord in lattice cells
+
+  // Canvas size in device pixels and the world-to-canvas transform that fits the grid
+  const [view, setView] = useState({ width: WORLD_WIDTH, height: WORLD_HEIGHT });
+  const viewTransform = useRef({ scale: 1, offsetX: 0, offsetY: 0 });
 
-  const tracers = useRef<Array<{x: number, y: number}>>([]);
-  const activePolygon = useRef<Point[]>([]);
+  // Simulation State: the solver runs in a worker, the component keeps the latest frame
+  const worker = useRef<Worker | null>(null);
+  const fields = useRef<LbmFields>(emptyFields(rows * cols));
+  const spareFields = useRef<LbmFields | null>(null); // Previous frame, handed back for reuse
+  const framePending = useRef(false);
+  const refreshFrame = useRef(false); // Fetch one frame while paused (after a reset)
+  const barrier = useRef(new Uint8Array(rows * cols)); // FLUID_CELL, BODY_CELL or WALL_CELL
+
+  // Force on the bodies after each lattice step, cleared whenever the flow restarts
+  const forceHistory = useRef<LbmForce[]>([]);
+  const forceScaling = useRef<ForceScaling | null>(null);
+  const framesSinceReport = useRef(0);
+  const forceListener = useRef(onForceData);
+  forceListener.current = onForceData;
+
+  // Probe histories by probe id; samples arrive in the order of `probeOrder`
+  const recorders = useRef(new Map<number, ProbeRecorder>());
+  const probeOrder = useRef<number[]>([]);
+  const probeList = useRef(probes);
+  probeList.current = probes;
+  const chordLength = useRef(1); // Main chord in world units, for probe positions in chords
+  const framesSinceProbeReport = useRef(0);
+  const probeListener = useRef(onProbeData);
+  probeListener.current = onProbeData;
+
+  // Averaged fields from the worker, refreshed every STATISTICS_FRAMES (each frame while shown)
+  const statistics = useRef<LbmStatisticsFields | null>(null);
+  const warmupRemaining = useRef(0);
+  const framesSinceStatistics = useRef(0);
+  const framesSinceWakeReport = useRef(0);
+  const [averaging, setAveraging] = useState({ samples: 0, warmupRemaining: 0 });
+  const wakeListener = useRef(onWakeData);
+  wakeListener.current = onWakeData;
+
+  // Flow visualization tools; particles are in lattice cells, placements in world units
+  const [tool, setTool] = useState<CanvasTool | null>(null);
+  const rake = useRef<{ start: Point; end: Point }>(DEFAULT_RAKE);
+  const placingRake = useRef(false);
+  const streaks = useRef<(TracerPoint | null)[][]>([]); // Per rake seed, oldest particle first
+  const streamlineSeeds = useRef<Point[]>([]);
+  const pathlines = useRef<{ particle: TracerPoint | null; points: TracerPoint[] }[]>([]);
+  const lastStepCount = useRef(0);
+  const pendingSteps = useRef(0); // Lattice steps the particles have yet to be moved through
+  const activePolygons = useRef<Point[][]>([]);
+  const openOutline = useRef<Point[] | null>(null); // The canopy skin, drawn without closing its intake
+  const canopyCells = useRef<number[]>([]); // Cells inside an open-cell canopy, for its internal pressure
+  const groundLine = useRef<number | null>(null); // Canvas y of the ground plane
+  const openRows = useRef(rows); // Rows above the ground, the height sound bounces across
+  const crossings = useRef<Point[]>([]); // Self-intersections of the drawn contours
   const animationFrameId = useRef<number>(0);
 
+  // Scalar being painted, its colour range and where the legend shows it
+  const visualization = useRef(params.visualization);
+  visualization.current = params.visualization;
+  const fieldScaling = useRef<FieldScaling | null>(null);
+  const scalarField = useRef(new Float32Array(rows * cols));
+  const displayRange = useRef<{ mode: FlowFieldMode; range: FieldRange } | null>(null);
+  const [legendRange, setLegendRange] = useState<FieldRange>({ min: 0, max: 1 });
+  const framesSinceLegend = useRef(0);
+
   // Visualization Buffers (prevent GC thrashing)
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const offscreenCtxRef = useRef<CanvasRenderingContext2D | null>(null);
@@ -56,65 +206,22 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
   const data32Ref = useRef<Uint32Array | null>(null);
 
   // --- SHAPE GENERATION LOGIC ---
-  const getShapePoints = useCallback((type: ShapeType, width: number, height: number): Point[] => {
+  const { airfoil, paraglider, controls } = params;
+  // Brakes and speed bar act on the main wing only, so added bodies are built without them
+  const getShapePoints = useCallback((type: ShapeType, width: number, height: number, controlled = false): Point[] => {
+    const flown = (section: Point[]) => (controlled ? deformSection(section, controls) : section);
     const cx = width / 2;
     const cy = height / 2;
     const points: Point[] = [];
 
-    if (type === ShapeType.AIRFOIL) {
-      // NACA 2412 (Cambered)
-      const chord = width * 0.4;
-      for (let i = 0; i <= 40; i++) {
-        const beta = (i / 40) * Math.PI;
-        const x = (0.5 * (1 - Math.cos(beta))) * chord;
-        const xc = x / chord;
-        const yt = 5 * 0.12 * (0.2969 * Math.sqrt(xc) - 0.1260 * xc - 0.3516 * xc ** 2 + 0.2843 * xc ** 3 - 0.1015 * xc ** 4);
-        const m = 0.02; const p = 0.4;
-        let yc = 0, dyc_dx = 0;
-        if (xc < p) {
-            yc = (m / (p * p)) * (2 * p * xc - xc * xc);
-            dyc_dx = (2 * m / (p * p)) * (p - xc);
-        } else {
-            yc = (m / ((1 - p) * (1 - p))) * ((1 - 2 * p) + 2 * p * xc - xc * xc);
-            dyc_dx = (2 * m / ((1 - p) * (1 - p))) * (p - xc);
-        }
-        const theta = Math.atan(dyc_dx);
-        points.push({ x: cx - chord/2 + x - yt * Math.sin(theta), y: cy - (yc + yt * Math.cos(theta)) * chord });
-      }
-      for (let i = 40; i >= 0; i--) {
-        const beta = (i / 40) * Math.PI;
-        const x = (0.5 * (1 - Math.cos(beta))) * chord;
-        const xc = x / chord;
-        const yt = 5 * 0.12 * (0.2969 * Math.sqrt(xc) - 0.1260 * xc - 0.3516 * xc ** 2 + 0.2843 * xc ** 3 - 0.1015 * xc ** 4);
-        const m = 0.02; const p = 0.4;
-        let yc = 0, dyc_dx = 0;
-        if (xc < p) {
-            yc = (m / (p * p)) * (2 * p * xc - xc * xc);
-            dyc_dx = (2 * m / (p * p)) * (p - xc);
-        } else {
-            yc = (m / ((1 - p) * (1 - p))) * ((1 - 2 * p) + 2 * p * xc - xc * xc);
-            dyc_dx = (2 * m / ((1 - p) * (1 - p))) * (p - xc);
-        }
-        const theta = Math.atan(dyc_dx);
-        points.push({ x: cx - chord/2 + x + yt * Math.sin(theta), y: cy - (yc - yt * Math.cos(theta)) * chord });
-      }
+    if (type === ShapeType.AIRFOIL || type === ShapeType.IMPORTED) {
+      // Generated NACA or imported section
+      const section = type === ShapeType.IMPORTED && importedAirfoil ? importedAirfoil.points : airfoilContour(airfoil);
+      points.push(...sectionToCanvas(flown(section), width, height));
 
     } else if (type === ShapeType.PARAGLIDER) {
-        const span = width * 0.5;
-        const thickness = 14; 
-        const arch = 50;
-        for(let i=0; i<=50; i++) {
-            const t = i/50;
-            const x = cx - span/2 + t*span;
-            const yBase = cy + Math.sin(t * Math.PI) * -arch;
-            points.push({x, y: yBase - thickness/2});
-        }
-        for(let i=50; i>=0; i--) {
-            const t = i/50;
-            const x = cx - span/2 + t*span;
-            const yBase = cy + Math.sin(t * Math.PI) * -arch;
-            points.push({x, y: yBase + thickness/2});
-        }
+      // Canopy section, closed across its intake
+      points.push(...sectionToCanvas(flown(paragliderProfile(paraglider).points), width, height));
 
     } else if (type === ShapeType.POD) {
         const len = width * 0.45;
@@ -143,164 +250,273 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
         points.push({x: cx - w/2, y: cy + h/2});
     }
     return points;
-  }, []);
+  }, [airfoil, paraglider, controls, importedAirfoil]);
 
-  // --- FLUID SIMULATION FUNCTIONS ---
+  // --- FLUID SIMULATION (WORKER) ---
 
-  const initFluid = useCallback(() => {
-    const size = ROWS * COLS * Q;
-    for (let i = 0; i < size; i++) {
-      const dir = i % Q;
-      n0.current[i] = w[dir];
-      n1.current[i] = w[dir];
-    }
-    barrier.current.fill(0);
-    tracers.current = [];
-    for(let i=0; i<1500; i++) {
-        tracers.current.push({
-            x: Math.random() * COLS,
-            y: Math.random() * ROWS
-        });
-    }
-    setIsUnstable(false);
-  }, []);
+  // Lattice velocity and relaxation time reproduce the panel solver's Reynolds number
+  const { collisionOperator: collision, smagorinskyConstant: smagorinsky, boundaries } = params;
+  const speed = params.windSpeed / 3.6; // m/s
+  const units = useMemo(() => latticeUnits({
+    chordCells,
+    speed,
+    referenceLength: params.referenceLength,
+    kinematicViscosity: atmosphere.kinematicViscosity,
+    collision,
+    smagorinsky
+  }), [chordCells, speed, params.referenceLength, atmosphere.kinematicViscosity, collision, smagorinsky]);
+  const latticeViscosity = units.viscosity;
+  const reynoldsMatched = Math.abs(units.latticeReynolds - units.reynolds) <= RE_MATCH_TOLERANCE * units.reynolds;
+  const inletVelocity = units.velocity;
 
-  const rasterizePolygon = useCallback((polygon: Point[], gridWidth: number, gridHeight: number) => {
-    barrier.current.fill(0);
-    if (polygon.length < 3) return;
+  const post = (message: LbmWorkerRequest, transfer: Transferable[] = []) => {
+    worker.current?.postMessage(message, transfer);
+  };
 
-    let minX = gridWidth, maxX = 0, minY = gridHeight, maxY = 0;
-    const gridPoly = polygon.map(p => ({ x: p.x / SCALE, y: p.y / SCALE }));
+  forceScaling.current = {
+    chordCells,
+    heightCells: openRows.current,
+    inletVelocity,
+    latticeViscosity,
+    speed,
+    referenceLength: params.referenceLength,
+    dynamicPressure: 0.5 * atmosphere.density * speed * speed
+  };
+  fieldScaling.current = { inletVelocity, speed, cellSize: units.cellSize, stepTime: units.stepTime };
+  chordLength.current = chordCells > 0 ? chordCells * cellSize : 1;
 
-    gridPoly.forEach(p => {
-        if(p.x < minX) minX = p.x;
-        if(p.x > maxX) maxX = p.x;
-        if(p.y < minY) minY = p.y;
-        if(p.y > maxY) maxY = p.y;
+  // Cp of the air inside an open-cell canopy, from the mean density of its cells (the
+  // averaged fields once there are any), against the upstream edge; p = rho / 3
+  const internalPressure = (): number | null => {
+    const cells = canopyCells.current;
+    const u0 = fieldScaling.current?.inletVelocity ?? 0;
+    if (cells.length === 0 || u0 <= 0) return null;
+    const { density } = statistics.current ?? fields.current;
+    let sum = 0;
+    cells.forEach(i => { sum += density[i]; });
+    const reference = upstreamDensity(density, barrier.current, grid.current.cols, grid.current.rows);
+    return (sum / cells.length - reference) / (1.5 * u0 * u0);
+  };
+
+  const reportForces = () => {
+    framesSinceReport.current = 0;
+    const scaling = forceScaling.current;
+    const result = scaling ? analyseForces(forceHistory.current, scaling) : null;
+    forceListener.current?.(result && { ...result, internalCp: internalPressure() });
+  };
+
+  const clearForces = () => {
+    forceHistory.current = [];
+    reportForces();
+  };
+
+  const reportProbes = () => {
+    framesSinceProbeReport.current = 0;
+    const scaling = fieldScaling.current;
+    if (!scaling || !probeListener.current) return;
+    const chord = chordLength.current;
+    const records = probeList.current.flatMap(probe => {
+      const recorder = recorders.current.get(probe.id);
+      if (!recorder) return [];
+      const position = { x: (probe.x - WORLD_WIDTH / 2) / chord, y: (WORLD_HEIGHT / 2 - probe.y) / chord };
+      return [{ probe, position, ...recorder.record(scaling) }];
     });
+    probeListener.current(records);
+  };
 
-    minX = Math.max(0, Math.floor(minX));
-    maxX = Math.min(gridWidth-1, Math.ceil(maxX));
-    minY = Math.max(0, Math.floor(minY));
-    maxY = Math.min(gridHeight-1, Math.ceil(maxY));
-
-    for (let y = minY; y <= maxY; y++) {
-        for (let x = minX; x <= maxX; x++) {
-            let inside = false;
-            for (let i = 0, j = gridPoly.length - 1; i < gridPoly.length; j = i++) {
-                const xi = gridPoly[i].x, yi = gridPoly[i].y;
-                const xj = gridPoly[j].x, yj = gridPoly[j].y;
-                const intersect = ((yi > y) !== (yj > y)) && (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
-                if (intersect) inside = !inside;
-            }
-            if (inside) {
-                barrier.current[y * COLS + x] = 1;
-            }
-        }
-    }
-  }, []);
+  const clearProbes = () => {
+    recorders.current.forEach(recorder => recorder.clear());
+    reportProbes();
+  };
 
-  const simulate = () => {
-    const visc = 0.02;
-    const omega = 1 / (3 * visc + 0.5);
-    const u0 = Math.min(0.12, params.windSpeed * 0.002);
-
-    // 1. COLLISION & STREAMING PREP
-    for (let y = 0; y < ROWS; y++) {
-        for (let x = 0; x < COLS; x++) {
-            const idx = y * COLS + x;
-            
-            if (barrier.current[idx]) continue;
-
-            let d = 0, u_x = 0, u_y = 0;
-            for (let i = 0; i < Q; i++) {
-                const f = n0.current[idx * Q + i];
-                d += f;
-                u_x += f * ex[i];
-                u_y += f * ey[i];
-            }
-            
-            // Stability Clamp for Density
-            if (d < 0.01) d = 0.01; 
-
-            // Inlet (Left)
-            if (x === 0) {
-                u_x = u0; u_y = 0; d = 1;
-                const u2 = u_x * u_x + u_y * u_y;
-                for (let i = 0; i < Q; i++) {
-                    const eu = ex[i] * u_x + ey[i] * u_y;
-                    const eq = w[i] * d * (1 + 3 * eu + 4.5 * eu * eu - 1.5 * u2);
-                    n0.current[idx * Q + i] = eq;
-                }
-            } else {
-                 u_x /= d;
-                 u_y /= d;
-                 
-                 // Velocity Clamp (CRITICAL FOR STABILITY)
-                 const maxU = 0.35;
-                 if (u_x > maxU) u_x = maxU;
-                 if (u_x < -maxU) u_x = -maxU;
-                 if (u_y > maxU) u_y = maxU;
-                 if (u_y < -maxU) u_y = -maxU;
-            }
-
-            density.current[idx] = d;
-            ux.current[idx] = u_x;
-            uy.current[idx] = u_y;
-
-            // BGK Collision
-            const u2 = u_x * u_x + u_y * u_y;
-            for (let i = 0; i < Q; i++) {
-                const eu = ex[i] * u_x + ey[i] * u_y;
-                const eq = w[i] * d * (1 + 3 * eu + 4.5 * eu * eu - 1.5 * u2);
-                n0.current[idx * Q + i] += omega * (eq - n0.current[idx * Q + i]);
-            }
-        }
+  const reportWake = () => {
+    framesSinceWakeReport.current = 0;
+    const averages = statistics.current;
+    const scaling = forceScaling.current;
+    const { cols: gridCols, rows: gridRows } = grid.current;
+    setAveraging({ samples: averages?.samples ?? 0, warmupRemaining: warmupRemaining.current });
+    if (!averages || !scaling || scaling.chordCells <= 0) {
+      wakeListener.current?.(null);
+      return;
     }
+    const chord = scaling.chordCells;
+    const station = Math.min(gridCols - 2, Math.round(gridCols / 2 + WAKE_STATION * chord));
+    const survey = wakeSurvey(
+      averages, barrier.current, gridCols, gridRows, station, scaling.inletVelocity, scaling.latticeViscosity, chord
+    );
+    wakeListener.current?.({
+      samples: averages.samples,
+      averagedTime: averages.samples * (fieldScaling.current?.stepTime ?? 0),
+      warmupRemaining: warmupRemaining.current,
+      cd: survey ? survey.cd : null,
+      station: (station + 0.5 - gridCols / 2) / chord,
+      profile: (survey?.profile ?? []).map(({ y, velocity }) => ({ y: (gridRows / 2 - y - 0.5) / chord, velocity }))
+    });
+  };
 
-    // 2. STREAMING
-    for (let y = 0; y < ROWS; y++) {
-        for (let x = 0; x < COLS; x++) {
-            const idx = y * COLS + x;
-            if (barrier.current[idx]) continue;
-
-            for (let i = 0; i < Q; i++) {
-                const srcX = x - ex[i];
-                const srcY = y - ey[i];
-
-                if (srcX >= 0 && srcX < COLS && srcY >= 0 && srcY < ROWS) {
-                    const srcIdx = srcY * COLS + srcX;
-                    if (barrier.current[srcIdx]) {
-                        n1.current[idx * Q + i] = n0.current[idx * Q + opp[i]];
-                    } else {
-                        n1.current[idx * Q + i] = n0.current[srcIdx * Q + i];
-                    }
-                } else if (srcY < 0 || srcY >= ROWS) {
-                    const wrapY = (srcY + ROWS) % ROWS;
-                    const srcIdx = wrapY * COLS + srcX;
-                     if (srcX >= 0 && srcX < COLS)
-                        n1.current[idx * Q + i] = n0.current[srcIdx * Q + i];
-                } 
-                else if (srcX < 0) {
-                     n1.current[idx * Q + i] = w[i];
-                }
-            }
-        }
-    }
-    
-    for (let y = 0; y < ROWS; y++) {
-        for (let x = 0; x < COLS; x++) {
-             if (barrier.current[y*COLS+x]) {
-                 const idx = y * COLS + x;
-                 for(let i=0; i<Q; i++) n1.current[idx*Q+i] = w[i];
-             }
+  // The worker restarts its averages itself whenever the flow changes
+  const clearAverages = () => {
+    statistics.current = null;
+    reportWake();
+  };
+
+  // Forces, probe histories and averages all describe one flow; a new flow starts them over
+  const restartRecording = () => {
+    clearForces();
+    clearProbes();
+    clearAverages();
+  };
+
+  useEffect(() => {
+    const lbm = new Worker(new URL('../services/lbmWorker.ts', import.meta.url), { type: 'module' });
+    lbm.onmessage = (event: MessageEvent<LbmWorkerResponse>) => {
+      const { fields: frame, forces, probes: probeSamples, stable, stepCount } = event.data;
+      const { statistics: averages, warmupRemaining: warmupLeft } = event.data;
+      framePending.current = false;
+      // Frames still in flight from before a grid change are dropped
+      if (frame.ux.length !== grid.current.cols * grid.current.rows) return;
+      spareFields.current = fields.current;
+      fields.current = frame;
+      // Particles catch up on the steps this frame advanced (none across a reset)
+      pendingSteps.current += Math.max(0, stepCount - lastStepCount.current);
+      lastStepCount.current = stepCount;
+
+      if (forces.length > 0) {
+        const history = forceHistory.current;
+        history.push(...forces);
+        if (history.length > FORCE_HISTORY_STEPS) history.splice(0, history.length - FORCE_HISTORY_STEPS);
+        if (++framesSinceReport.current >= FORCE_REPORT_FRAMES) reportForces();
+      }
+
+      // Probe samples, one block per step; a frame taken with another probe set is dropped
+      const ids = probeOrder.current;
+      const stride = 1 + 3 * ids.length;
+      if (ids.length > 0 && probeSamples.length === forces.length * stride) {
+        const firstStep = stepCount - forces.length + 1;
+        for (let k = 0; k < forces.length; k++) {
+          const block = k * stride;
+          ids.forEach((id, p) => recorders.current.get(id)?.push(
+            firstStep + k,
+            probeSamples[block + 1 + 3 * p],
+            probeSamples[block + 2 + 3 * p],
+            probeSamples[block + 3 + 3 * p],
+            probeSamples[block]
+          ));
         }
-    }
+        if (++framesSinceProbeReport.current >= PROBE_REPORT_FRAMES) reportProbes();
+      }
+
+      if (averages) statistics.current = averages;
+      warmupRemaining.current = warmupLeft;
+      if (forces.length > 0 && ++framesSinceWakeReport.current >= STATISTICS_FRAMES) reportWake();
+      if (!stable) {
+        console.warn("Simulation Unstable - Pausing");
+        setIsUnstable(true);
+        setIsPlaying(false);
+      }
+    };
+    worker.current = lbm;
+    post({
+      type: 'init',
+      config: { ...grid.current, viscosity: latticeViscosity, inletVelocity, collision, smagorinsky, boundaries }
+    });
+    post({ type: 'obstacle', mask: barrier.current.slice() });
+
+    return () => {
+      lbm.terminate();
+      worker.current = null;
+      framePending.current = false;
+    };
+  }, []);
+
+  // A new resolution starts a fresh solver; the shape effect below rasterises the obstacle for it
+  useEffect(() => {
+    if (grid.current.cols === cols && grid.current.rows === rows) return;
+    grid.current = { cols, rows };
+    fields.current = emptyFields(cols * rows);
+    spareFields.current = null;
+    post({
+      type: 'init',
+      config: { cols, rows, viscosity: latticeViscosity, inletVelocity, collision, smagorinsky, boundaries }
+    });
+    restartRecording();
+    clearTracers();
+    refreshFrame.current = true;
+    setIsUnstable(false);
+  }, [cols, rows]);
+
+  // Canvas follows its container; the grid keeps its aspect ratio, centred
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.round(entry.contentRect.width * ratio));
+      const height = Math.max(1, Math.round(entry.contentRect.height * ratio));
+      setView(current => (current.width === width && current.height === height ? current : { width, height }));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    post({
+      type: 'parameters',
+      parameters: { viscosity: latticeViscosity, inletVelocity, collision, smagorinsky, boundaries }
+    });
+    restartRecording();
+  }, [latticeViscosity, inletVelocity, collision, smagorinsky, boundaries]);
+
+  // Probes keep their place in the tunnel; the cells they sample follow the grid
+  useEffect(() => {
+    const cells = probes.map(probe => {
+      const x = Math.min(cols - 1, Math.max(0, Math.floor(probe.x / cellSize)));
+      const y = Math.min(rows - 1, Math.max(0, Math.floor(probe.y / cellSize)));
+      return y * cols + x;
+    });
+    probeOrder.current = probes.map(probe => probe.id);
+    const kept = new Map<number, ProbeRecorder>();
+    probes.forEach(probe => kept.set(probe.id, recorders.current.get(probe.id) ?? new ProbeRecorder()));
+    recorders.current = kept;
+    post({ type: 'probes', cells });
+    reportProbes();
+  }, [probes, cols, rows, cellSize]);
+
+  // Warm-up in convective times c/V, converted at the current lattice velocity
+  const warmupSteps = inletVelocity > 0 && chordCells > 0
+    ? Math.round((params.statisticsWarmup * chordCells) / inletVelocity)
+    : 0;
+  useEffect(() => {
+    post({ type: 'warmup', steps: warmupSteps });
+    clearAverages();
+  }, [warmupSteps]);
+
+  const resetAveraging = () => {
+    post({ type: 'resetStatistics' });
+    clearAverages();
+  };
+
+  const exportStatistics = () => {
+    const averages = statistics.current;
+    const scaling = fieldScaling.current;
+    if (!averages || !scaling) return;
+    downloadText('lbm-statistics.csv', statisticsToCsv(averages, barrier.current, cols, rows, scaling, chordCells));
+  };
 
-    const temp = n0.current;
-    n0.current = n1.current;
-    n1.current = temp;
-  }
+  // Smoke and pathlines belong to the flow they were released in; seeds and the rake stay
+  const clearTracers = () => {
+    streaks.current = [];
+    pathlines.current = [];
+    pendingSteps.current = 0;
+  };
+
+  const resetFluid = useCallback(() => {
+    post({ type: 'reset' });
+    restartRecording();
+    clearTracers();
+    refreshFrame.current = true;
+    setIsUnstable(false);
+  }, []);
 
   // --- RENDER LOOP ---
   useEffect(() => {
@@ -309,123 +525,256 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) return;
     
-    canvas.width = COLS * SCALE;
-    canvas.height = ROWS * SCALE;
+    canvas.width = view.width;
+    canvas.height = view.height;
+    const scale = Math.min(view.width / WORLD_WIDTH, view.height / WORLD_HEIGHT);
+    viewTransform.current = {
+      scale,
+      offsetX: (view.width - WORLD_WIDTH * scale) / 2,
+      offsetY: (view.height - WORLD_HEIGHT * scale) / 2
+    };
     
-    // Initialize Offscreen Canvas for Visualization
-    if (!offscreenCanvasRef.current) {
+    // Initialize Offscreen Canvas for Visualization (one pixel per cell)
+    if (!offscreenCanvasRef.current || offscreenCanvasRef.current.width !== cols || offscreenCanvasRef.current.height !== rows) {
         offscreenCanvasRef.current = document.createElement('canvas');
-        offscreenCanvasRef.current.width = COLS;
-        offscreenCanvasRef.current.height = ROWS;
+        offscreenCanvasRef.current.width = cols;
+        offscreenCanvasRef.current.height = rows;
         offscreenCtxRef.current = offscreenCanvasRef.current.getContext('2d');
         if (offscreenCtxRef.current) {
-            imageDataRef.current = offscreenCtxRef.current.createImageData(COLS, ROWS);
+            imageDataRef.current = offscreenCtxRef.current.createImageData(cols, rows);
             buf8Ref.current = imageDataRef.current.data;
             data32Ref.current = new Uint32Array(imageDataRef.current.data.buffer);
         }
     }
 
-    // Initial fill
-    if (tracers.current.length === 0) initFluid();
+    const toCells = (p: Point): TracerPoint => ({ x: p.x / cellSize, y: p.y / cellSize });
+
+    // Moves the smoke and the pathline particles on by `steps` lattice steps
+    const advanceTracers = (flow: VelocityGrid, steps: number) => {
+      const { start, end } = rake.current;
+      const seeds = Array.from({ length: RAKE_SEEDS }, (_, k) => {
+        const t = k / (RAKE_SEEDS - 1);
+        return toCells({ x: start.x + t * (end.x - start.x), y: start.y + t * (end.y - start.y) });
+      });
+      if (streaks.current.length !== seeds.length) streaks.current = seeds.map(() => []);
+      streaks.current.forEach((streak, k) => {
+        for (let j = 0; j < streak.length; j++) {
+          const p = streak[j];
+          if (p) streak[j] = advectParticle(flow, p, steps);
+        }
+        streak.push(seeds[k]);
+        // Lost particles leave a gap; the oldest go once they have left or the streak is full
+        while (streak.length > 0 && (streak[0] === null || streak.length > MAX_STREAK_PARTICLES)) streak.shift();
+      });
+
+      pathlines.current.forEach(path => {
+        if (!path.particle || path.points.length >= MAX_PATHLINE_POINTS) return;
+        path.particle = advectParticle(flow, path.particle, steps);
+        if (path.particle) path.points.push(path.particle);
+      });
+    };
+
+    const strokePath = (points: (TracerPoint | null)[]) => {
+      let drawing = false;
+      points.forEach(p => {
+        if (!p) {
+          drawing = false;
+          return;
+        }
+        if (drawing) ctx.lineTo(p.x * cellSize, p.y * cellSize);
+        else ctx.moveTo(p.x * cellSize, p.y * cellSize);
+        drawing = true;
+      });
+    };
+
+    const drawTracers = (flow: VelocityGrid) => {
+      // Streaklines: the smoke emitted from the rake
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      streaks.current.forEach(strokePath);
+      ctx.stroke();
+
+      const { start, end } = rake.current;
+      ctx.strokeStyle = '#e2e8f0';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+
+      // Instantaneous streamlines of the current frame
+      ctx.strokeStyle = 'rgba(125, 211, 252, 0.9)';
+      ctx.fillStyle = '#7dd3fc';
+      ctx.lineWidth = 1.25;
+      streamlineSeeds.current.forEach(seed => {
+        ctx.beginPath();
+        strokePath(traceStreamline(flow, toCells(seed)));
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(seed.x, seed.y, 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+
+      // Pathlines: where each released particle has been
+      ctx.strokeStyle = '#fbbf24';
+      ctx.fillStyle = '#fbbf24';
+      ctx.lineWidth = 1.5;
+      pathlines.current.forEach(path => {
+        ctx.beginPath();
+        strokePath(path.points);
+        ctx.stroke();
+        if (path.particle) {
+          ctx.beginPath();
+          ctx.arc(path.particle.x * cellSize, path.particle.y * cellSize, 3, 0, 2 * Math.PI);
+          ctx.fill();
+        }
+      });
+    };
 
     const render = () => {
-      // Run Physics only if playing, not drawing, and stable
-      if (isPlaying && !isDrawing && !isUnstable) {
-          // Reduced steps for better UI responsiveness and stability
-          for(let i=0; i<4; i++) simulate();
-
-          // Check for stability (NaN check)
-          const testIdx = COLS * (ROWS/2) + 20;
-          if (Number.isNaN(ux.current[testIdx]) || !isFinite(ux.current[testIdx])) {
-              console.warn("Simulation Unstable - Pausing");
-              setIsUnstable(true);
-              setIsPlaying(false);
-          }
+      // Ask the worker for the next frame only if playing, not drawing, and stable;
+      // it steps while this thread draws the frame it has
+      const running = isPlaying && !isDrawing && !isUnstable;
+      if ((running || refreshFrame.current) && !framePending.current && worker.current) {
+          const buffers = spareFields.current;
+          spareFields.current = null;
+          framePending.current = true;
+          refreshFrame.current = false;
+          // Averaged fields are large; fetch them every frame only while they are painted
+          const showingAverages = STATISTICS_MODES.includes(visualization.current.mode);
+          const fetchStatistics = showingAverages || ++framesSinceStatistics.current >= STATISTICS_FRAMES;
+          if (fetchStatistics) framesSinceStatistics.current = 0;
+          post(
+            { type: 'step', steps: running ? STEPS_PER_FRAME : 0, buffers, statistics: fetchStatistics },
+            buffers ? [buffers.density.buffer, buffers.ux.buffer, buffers.uy.buffer] : []
+          );
       }
+      const { ux, uy } = fields.current;
 
       // Visualization
       const data32 = data32Ref.current;
-      if (!data32) return;
+      const scaling = fieldScaling.current;
+      if (!data32 || !scaling) {
+        // Nothing to paint yet; keep the loop alive for the frame that brings it
+        animationFrameId.current = requestAnimationFrame(render);
+        return;
+      }
+
+      const settings = visualization.current;
+      if (scalarField.current.length !== cols * rows) scalarField.current = new Float32Array(cols * rows);
+      const values = scalarField.current;
+      deriveField(settings.mode, fields.current, statistics.current, barrier.current, cols, rows, scaling, values);
+
+      let range: FieldRange = { min: settings.min, max: settings.max };
+      if (settings.autoRange) {
+        const target = autoRange(settings.mode, values, barrier.current);
+        const previous = displayRange.current?.mode === settings.mode ? displayRange.current.range : null;
+        // Ease towards the new range so the colours don't flicker from frame to frame
+        range = previous ? {
+          min: previous.min + (target.min - previous.min) * RANGE_EASING,
+          max: previous.max + (target.max - previous.max) * RANGE_EASING
+        } : target;
+      }
+      displayRange.current = { mode: settings.mode, range };
+      if (++framesSinceLegend.current >= FORCE_REPORT_FRAMES) {
+        framesSinceLegend.current = 0;
+        setLegendRange(range);
+      }
 
       // 0xAABBGGRR (Little Endian)
-      for(let i=0; i<COLS*ROWS; i++) {
+      const table = colormapTable(settings.colormap);
+      const toIndex = 255 / (range.max - range.min || 1);
+      for(let i=0; i<cols*rows; i++) {
           if (barrier.current[i]) {
               data32[i] = 0xFF141414; // Dark Gray (Solid)
           } else {
-              const vx = ux.current[i];
-              const vy = uy.current[i];
-              const v2 = vx*vx + vy*vy;
-              // Limit speed for color map to avoid wrapping/glitches if unstable
-              let speed = Math.sqrt(v2) * 15; 
-              if (speed > 1.2) speed = 1.2;
-
-              let r=0, g=0, b=0;
-              
-              if (speed < 0.25) { 
-                  b = 255; 
-                  g = (speed * 4 * 150) | 0; 
-              } else if (speed < 0.5) { 
-                  b = (255 * (1 - (speed-0.25)*4)) | 0;
-                  g = (150 + (speed-0.25)*4 * 105) | 0;
-              } else if (speed < 0.75) { 
-                  g = 255;
-                  r = ((speed-0.5)*4 * 255) | 0;
-                  b = 0;
-              } else { 
-                  r = 255;
-                  g = (255 * (1 - (speed-0.75)*4)) | 0;
-                  b = 0;
-              }
-              
-              data32[i] = (255 << 24) | (b << 16) | (g << 8) | r;
+              const t = (values[i] - range.min) * toIndex;
+              data32[i] = table[t > 255 ? 255 : t > 0 ? t | 0 : 0]; // NaN falls to the bottom
           }
       }
 
+      // Everything below is drawn in world units
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = '#020617';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.setTransform(scale, 0, 0, scale, viewTransform.current.offsetX, viewTransform.current.offsetY);
+
       if (offscreenCtxRef.current && imageDataRef.current) {
           offscreenCtxRef.current.putImageData(imageDataRef.current, 0, 0);
           ctx.imageSmoothingEnabled = true;
-          ctx.drawImage(offscreenCanvasRef.current, 0, 0, canvas.width, canvas.height);
+          ctx.drawImage(offscreenCanvasRef.current, 0, 0, WORLD_WIDTH, WORLD_HEIGHT);
       }
 
-      // Draw Streamlines
-      if (!isUnstable) {
-          ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
-          const speedScale = 1.0; 
-          
-          tracers.current.forEach(t => {
-              const gx = Math.floor(t.x);
-              const gy = Math.floor(t.y);
-              if (gx >= 0 && gx < COLS-1 && gy >= 0 && gy < ROWS-1) {
-                  const idx = gy * COLS + gx;
-                  if (!barrier.current[idx]) {
-                      t.x += ux.current[idx] * COLS * speedScale; 
-                      t.y += uy.current[idx] * COLS * speedScale;
-                      
-                      const screenX = t.x * SCALE;
-                      const screenY = t.y * SCALE;
-                      ctx.fillRect(screenX, screenY, 2, 2);
-                  }
-              }
-              // Reset tracers that go off screen or randomly
-              if (t.x < 0 || t.x > COLS || t.y < 0 || t.y > ROWS || Math.random() < 0.005 || barrier.current[gy*COLS+gx]) {
-                  t.x = 0;
-                  t.y = Math.random() * ROWS;
-              }
-          });
+      // Streamlines of the stream function at evenly spaced levels
+      if (settings.mode === 'streamfunction') {
+        const step = (range.max - range.min) / CONTOUR_LEVELS;
+        const levels = Array.from({ length: CONTOUR_LEVELS - 1 }, (_, k) => range.min + (k + 1) * step);
+        const segments = contourSegments(values, barrier.current, cols, rows, levels);
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let k = 0; k < segments.length; k += 4) {
+          ctx.moveTo(segments[k] * cellSize, segments[k + 1] * cellSize);
+          ctx.lineTo(segments[k + 2] * cellSize, segments[k + 3] * cellSize);
+        }
+        ctx.stroke();
       }
-      
-      // Draw Polygon Outline
-      if (activePolygon.current.length > 0) {
-        ctx.strokeStyle = '#94a3b8';
-        ctx.lineWidth = 1.5;
+
+      // Flow visualization tools, moved only as far as the flow has advanced
+      const flow: VelocityGrid = { ux, uy, mask: barrier.current, cols, rows };
+      const steps = pendingSteps.current;
+      pendingSteps.current = 0;
+      if (steps > 0) advanceTracers(flow, steps);
+      if (!isUnstable) drawTracers(flow);
+
+      // Probes
+      ctx.strokeStyle = '#f472b6';
+      ctx.fillStyle = '#f472b6';
+      ctx.lineWidth = 1.5;
+      ctx.font = '11px monospace';
+      probeList.current.forEach(probe => {
+        ctx.beginPath();
+        ctx.arc(probe.x, probe.y, 4, 0, 2 * Math.PI);
+        ctx.moveTo(probe.x - 8, probe.y);
+        ctx.lineTo(probe.x + 8, probe.y);
+        ctx.moveTo(probe.x, probe.y - 8);
+        ctx.lineTo(probe.x, probe.y + 8);
+        ctx.stroke();
+        ctx.fillText(`P${probe.id}`, probe.x + 6, probe.y - 6);
+      });
+
+      // Draw Polygon Outlines
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 1.5;
+      activePolygons.current.forEach(polygon => {
+        if (polygon.length === 0) return;
         ctx.beginPath();
-        const p0 = activePolygon.current[0];
-        ctx.moveTo(p0.x, p0.y);
-        for(let i=1; i<activePolygon.current.length; i++) {
-            ctx.lineTo(activePolygon.current[i].x, activePolygon.current[i].y);
+        ctx.moveTo(polygon[0].x, polygon[0].y);
+        for(let i=1; i<polygon.length; i++) {
+            ctx.lineTo(polygon[i].x, polygon[i].y);
         }
-        ctx.closePath();
+        if (polygon !== openOutline.current) ctx.closePath();
         ctx.stroke();
+      });
+
+      // Self-intersections flagged by the geometry checks
+      ctx.fillStyle = '#ef4444';
+      crossings.current.forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 4, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+
+      // Ground plane
+      if (groundLine.current !== null) {
+        ctx.strokeStyle = '#f59e0b';
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        ctx.moveTo(0, groundLine.current);
+        ctx.lineTo(WORLD_WIDTH, groundLine.current);
+        ctx.stroke();
+        ctx.setLineDash([]);
       }
 
       animationFrameId.current = requestAnimationFrame(render);
@@ -434,7 +783,7 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
     render();
 
     return () => cancelAnimationFrame(animationFrameId.current);
-  }, [initFluid, params.windSpeed, isPlaying, isDrawing, isUnstable]);
+  }, [isPlaying, isDrawing, isUnstable, cols, rows, cellSize, view]);
 
   // --- INTERACTION ---
   useEffect(() => {
@@ -442,54 +791,194 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
     // But for smooth UX, let's just update the barrier. 
     // If Custom drawing, we pause explicitly in MouseDown.
     
-    let polygon: Point[] = [];
-    const w = COLS * SCALE;
-    const h = ROWS * SCALE;
-
-    if (shapeType === ShapeType.CUSTOM) {
-        polygon = customPoints;
-    } else {
-        const rawPoints = getShapePoints(shapeType, w, h);
-        const cx = w / 2;
-        const cy = h / 2;
-        const rad = (params.angleOfAttack * Math.PI) / 180;
-        polygon = rawPoints.map(p => {
-          const dx = p.x - cx;
-          const dy = p.y - cy;
-          return {
-            x: cx + dx * Math.cos(rad) - dy * Math.sin(rad),
-            y: cy + dx * Math.sin(rad) + dy * Math.cos(rad)
-          };
-        });
+    const w = WORLD_WIDTH;
+    const h = WORLD_HEIGHT;
+    const center = { x: w / 2, y: h / 2 };
+
+    // Body-frame outline (zero incidence); custom strokes are stored that way too.
+    // Every contour is cleaned and repaneled once here, for the rasteriser and the solver.
+    const prepare = (points: Point[]) => preprocessGeometry(points, { panelCount: params.panelCount, yDown: true });
+    const reports = [prepare(shapeType === ShapeType.CUSTOM ? customPoints : getShapePoints(shapeType, w, h, true))];
+    const mainBody = reports[0].points;
+    const mainChord = findChordLine(mainBody);
+
+    // Further bodies: built like the main shape around the canvas centre, scaled to their
+    // size in main chords, turned by their own incidence and moved by their offset
+    const bodies = [mainBody];
+    if (mainChord.length > 0) {
+      params.additionalBodies.forEach(b => {
+        const prepared = prepare(getShapePoints(b.shapeType, w, h));
+        reports.push(prepared);
+        const factor = (b.scale * mainChord.length) / (findChordLine(prepared.points).length || 1);
+        const base = prepared.points.map(p => ({
+          x: center.x + (p.x - center.x) * factor,
+          y: center.y + (p.y - center.y) * factor
+        }));
+        bodies.push(rotatePoints(base, b.incidence, center).map(p => ({
+          x: p.x + b.x * mainChord.length,
+          y: p.y - b.y * mainChord.length
+        })));
+      });
     }
+    const polygons = bodies.map(body => rotatePoints(body, params.angleOfAttack, center));
+    // An open-cell canopy reaches the lattice as its bare skin, so the cell is fluid and
+    // fills through the intake
+    const canopy = shapeType === ShapeType.PARAGLIDER
+      ? rotatePoints(
+          sectionToCanvas(deformSection(paragliderProfile(params.paraglider).skin, params.controls), w, h),
+          params.angleOfAttack,
+          center
+        )
+      : null;
 
-    activePolygon.current = polygon;
-    rasterizePolygon(polygon, COLS, ROWS);
+    setGeometryReports(reports);
+    // Crossings only come from the main contour; added bodies are built-in shapes
+    crossings.current = rotatePoints(reports[0].intersections, params.angleOfAttack, center);
+    activePolygons.current = canopy ? [canopy, ...polygons.slice(1)] : polygons;
+    openOutline.current = canopy;
+    // Solid cells for the fields and the wall's position along every cut link, so the
+    // solver sees the true outline rather than the staircase
+    const mask = new Uint8Array(rows * cols);
+    const links = new Float32Array(rows * cols * 9);
+    const toCells = (p: Point) => ({ x: p.x / cellSize, y: p.y / cellSize });
+    canopyCells.current = [];
+    polygons.forEach((polygon, k) => {
+      const inCells = polygon.map(toCells);
+      if (k === 0 && canopy) {
+        traceWallLinks(links, canopy.map(toCells), cols, rows, false);
+        const inside = new Uint8Array(rows * cols);
+        rasterizePolygon(inside, inCells, cols, rows);
+        inside.forEach((cell, i) => { if (cell) canopyCells.current.push(i); });
+        return;
+      }
+      rasterizePolygon(mask, inCells, cols, rows);
+      traceWallLinks(links, inCells, cols, rows);
+    });
+
+    // Ground plane parallel to the flow, groundHeight below the moment reference point;
+    // the solver runs it past at the freestream, like the road under a wing
+    groundLine.current = null;
+    if (params.groundEffect && mainChord.length > 0) {
+      const reference = rotatePoints([{
+        x: mainChord.leadingEdge.x + params.momentReference * (mainChord.trailingEdge.x - mainChord.leadingEdge.x),
+        y: mainChord.leadingEdge.y + params.momentReference * (mainChord.trailingEdge.y - mainChord.leadingEdge.y)
+      }], params.angleOfAttack, center)[0];
+      const pixelsPerMetre = mainChord.length / params.referenceLength;
+      groundLine.current = reference.y + params.groundHeight * pixelsPerMetre;
+      const firstRow = Math.max(0, Math.ceil(groundLine.current / cellSize));
+      for (let y = firstRow; y < rows; y++) mask.fill(WALL_CELL, y * cols, (y + 1) * cols);
+    }
+    // Blockage: rows crossed by a body over the rows not taken by the ground; a section
+    // thinner than a cell shows up in the cut links only
+    let bodyRows = 0;
+    openRows.current = 0;
+    for (let y = 0; y < rows; y++) {
+      const row = mask.subarray(y * cols, (y + 1) * cols);
+      if (row.includes(BODY_CELL) || links.subarray(y * cols * 9, (y + 1) * cols * 9).some(q => q > 0)) bodyRows++;
+      if (!row.every(cell => cell === WALL_CELL)) openRows.current++;
+    }
+    onBlockage?.(openRows.current > 0 ? bodyRows / openRows.current : 0);
+
+    barrier.current = mask;
+    const obstacle = mask.slice();
+    post({ type: 'obstacle', mask: obstacle, links }, [obstacle.buffer, links.buffer]);
+    setChordCells(mainChord.length / cellSize);
+    restartRecording();
     
-    if (!isDrawing && polygon.length > 2) {
-        onShapeData(polygon);
+    // The solver works in metres in the body frame and applies the incidence itself
+    if (!isDrawing && mainBody.length > 2) {
+        onShapeData(toPhysicalFrame(bodies, params.referenceLength));
     }
 
-  }, [shapeType, params.angleOfAttack, getShapePoints, rasterizePolygon, customPoints, isDrawing, onShapeData]);
+  }, [
+    shapeType, params.angleOfAttack, params.referenceLength, params.additionalBodies, params.groundEffect,
+    params.groundHeight, params.momentReference, params.panelCount, params.paraglider, params.controls, getShapePoints, customPoints, isDrawing, onShapeData,
+    onBlockage, cols, rows, cellSize
+  ]);
+
+  // Custom strokes are drawn at the current incidence; store them de-rotated so the
+  // incidence slider turns them like the built-in shapes
+  const toBodyFrame = (p: Point): Point => {
+    return rotatePoints([p], -params.angleOfAttack, { x: WORLD_WIDTH / 2, y: WORLD_HEIGHT / 2 })[0];
+  };
+
+  // Pointer position in world units, through the CSS size and the fit transform
+  const toWorld = (e: React.MouseEvent): Point | null => {
+    const canvas = canvasRef.current;
+    const rect = canvas?.getBoundingClientRect();
+    if (!canvas || !rect || rect.width === 0) return null;
+    const { scale, offsetX, offsetY } = viewTransform.current;
+    return {
+      x: ((e.clientX - rect.left) * (canvas.width / rect.width) - offsetX) / scale,
+      y: ((e.clientY - rect.top) * (canvas.height / rect.height) - offsetY) / scale
+    };
+  };
 
 
   const handleMouseDown = (e: React.MouseEvent) => {
+    const point = toWorld(e);
+    if (!point) return;
+    // A selected tool takes the pointer; otherwise custom shapes are drawn
+    if (tool === 'rake') {
+      placingRake.current = true;
+      rake.current = { start: point, end: point };
+      streaks.current = [];
+      return;
+    }
+    if (tool === 'streamline') {
+      streamlineSeeds.current.push(point);
+      return;
+    }
+    if (tool === 'pathline') {
+      const particle = { x: point.x / cellSize, y: point.y / cellSize };
+      pathlines.current.push({ particle, points: [particle] });
+      return;
+    }
+    if (tool === 'probe') {
+      const id = probes.reduce((highest, probe) => Math.max(highest, probe.id), 0) + 1;
+      onProbesChange?.([...probes, { id, ...point }]);
+      return;
+    }
     if (shapeType !== ShapeType.CUSTOM) return;
     setIsPlaying(false); // Pause while drawing
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
     setIsDrawing(true);
-    setCustomPoints([{ x: e.clientX - rect.left, y: e.clientY - rect.top }]);
+    setCustomPoints([toBodyFrame(point)]);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (placingRake.current) {
+      const point = toWorld(e);
+      if (point) rake.current = { ...rake.current, end: point };
+      streaks.current = [];
+      return;
+    }
     if (!isDrawing || shapeType !== ShapeType.CUSTOM) return;
-    const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    setCustomPoints(prev => [...prev, { x: e.clientX - rect.left, y: e.clientY - rect.top }]);
+    const point = toWorld(e);
+    if (!point) return;
+    setCustomPoints(prev => [...prev, toBodyFrame(point)]);
   };
 
+  const clearTools = () => {
+    streamlineSeeds.current = [];
+    pathlines.current = [];
+    streaks.current = [];
+  };
+
+  // Fixed ranges are known up front; automatic ones come from the render loop
+  const shownRange = params.visualization.autoRange
+    ? legendRange
+    : { min: params.visualization.min, max: params.visualization.max };
+
   const handleMouseUp = () => {
+    if (placingRake.current) {
+      placingRake.current = false;
+      // A click without a drag leaves a rake of no length; fall back to a vertical one
+      const { start, end } = rake.current;
+      if (Math.hypot(end.x - start.x, end.y - start.y) < 5) {
+        rake.current = { start: { x: start.x, y: start.y - 60 }, end: { x: start.x, y: start.y + 60 } };
+      }
+      return;
+    }
     setIsDrawing(false);
     // We leave it paused so user can decide when to run it
   };
@@ -502,17 +991,83 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
-        className="block w-full h-full object-cover" 
+        className="block w-full h-full" 
       />
       
       {/* HUD Overlays */}
       <div className="absolute top-4 right-4 flex flex-col gap-2 pointer-events-none">
-          <div className="flex items-center gap-2">
-            <div className="w-24 h-2 rounded-full bg-gradient-to-r from-blue-600 via-green-500 to-red-500 opacity-80 border border-slate-700"></div>
-            <span className="text-[10px] text-white font-mono shadow-black drop-shadow-md">VELOCITY</span>
+          <div className="flex items-center gap-2 justify-end">
+            <span className="text-[10px] text-white font-mono drop-shadow-md">
+              {FIELD_LABELS[params.visualization.mode]} ({FIELD_UNITS[params.visualization.mode]})
+            </span>
+            <div className="w-32">
+              <div
+                className="h-2 rounded-full opacity-90 border border-slate-700"
+                style={{ background: colormapGradient(params.visualization.colormap) }}
+              />
+              <div className="flex justify-between text-[9px] text-slate-300 font-mono drop-shadow-md">
+                <span>{formatLegend(shownRange.min)}</span>
+                <span>{formatLegend((shownRange.min + shownRange.max) / 2)}</span>
+                <span>{formatLegend(shownRange.max)}</span>
+              </div>
+            </div>
+          </div>
+          <div className="text-[10px] text-slate-300 font-mono text-right drop-shadow-md">
+            {/* The lattice's own Re; where tau is limited it falls short of the target */}
+            Re {units.latticeReynolds.toExponential(2)}
+            {reynoldsMatched
+              ? ' matched'
+              : <span className="text-amber-400"> of {units.reynolds.toExponential(2)} target</span>}
+            {' '}· τ {units.tau.toFixed(4)} · Ma {units.mach.toFixed(2)}
+          </div>
+          <div className="text-[10px] text-slate-400 font-mono text-right drop-shadow-md">
+            {cols}×{rows} · {chordCells.toFixed(0)} cells/c · Δx {(units.cellSize * 1000).toFixed(1)} mm
           </div>
+          {units.warnings.map(warning => (
+            <div key={warning} className="max-w-xs text-[10px] text-amber-400 font-mono text-right drop-shadow-md">
+              {warning}
+            </div>
+          ))}
       </div>
       
+      {/* Averaging window */}
+      {STATISTICS_MODES.includes(params.visualization.mode) && (
+        <div className="absolute bottom-6 left-4 flex items-center gap-2 bg-slate-900/90 px-3 py-1.5 rounded-full border border-slate-700 backdrop-blur-md text-[10px] font-mono text-slate-300 z-20">
+          <span>
+            {averaging.samples > 0
+              ? `AVG ${averaging.samples} steps · ${(averaging.samples * units.stepTime).toFixed(2)} s`
+              : `WARM-UP ${averaging.warmupRemaining} steps`}
+          </span>
+          <button onClick={resetAveraging} className="p-1 rounded-full text-slate-400 hover:text-white" title="Restart Averaging Now">
+            <TimerReset className="w-4 h-4" />
+          </button>
+          <button
+            onClick={exportStatistics}
+            disabled={averaging.samples === 0}
+            className="p-1 rounded-full text-slate-400 hover:text-white disabled:opacity-40"
+            title="Export Averaged Fields (CSV)"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Geometry Report */}
+      {geometryReports.some(r => r.steps.some(step => step.change)) && (
+        <div className="absolute top-4 left-4 max-w-xs bg-slate-900/80 border border-slate-700 rounded p-2 text-[9px] font-mono text-slate-400 pointer-events-none backdrop-blur-sm space-y-1">
+          {geometryReports.map((report, index) => (
+            <div key={index}>
+              <div className="text-slate-300">{index === 0 ? 'GEOMETRY' : `BODY #${index + 1}`}</div>
+              {report.steps.filter(step => step.change).map(step => (
+                <div key={step.step} className={step.step === 'self-intersection' ? 'text-red-400' : undefined}>
+                  {step.step}: {step.change}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Control Bar */}
       <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-slate-900/90 p-1.5 rounded-full border border-slate-700 backdrop-blur-md shadow-2xl z-20">
         <button 
@@ -525,12 +1080,30 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
         </button>
         <div className="w-px h-6 bg-slate-700 mx-1"></div>
         <button 
-            onClick={() => initFluid()}
+            onClick={() => resetFluid()}
             className="p-2 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-all"
             title="Reset Simulation Fluid"
         >
             <RotateCcw className="w-5 h-5" />
         </button>
+        <div className="w-px h-6 bg-slate-700 mx-1"></div>
+        {CANVAS_TOOLS.map(([id, Icon, label]) => (
+          <button
+              key={id}
+              onClick={() => setTool(tool === id ? null : id)}
+              className={`p-2 rounded-full transition-all ${tool === id ? 'bg-sky-500/20 text-sky-400' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white'}`}
+              title={label}
+          >
+              <Icon className="w-5 h-5" />
+          </button>
+        ))}
+        <button
+            onClick={clearTools}
+            className="p-2 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-all"
+            title="Clear Streamlines and Pathlines"
+        >
+            <Eraser className="w-5 h-5" />
+        </button>
       </div>
 
       {/* Unstable Alert */}
@@ -541,7 +1114,7 @@ const WindTunnel: React.FC<WindTunnelProps> = ({ shapeType, params, onShapeData
                 <h3 className="font-bold text-lg">Simulation Unstable</h3>
                 <p className="text-xs text-red-200 max-w-[200px]">Fluid velocity exceeded stability limits. Try reducing wind speed or smoothing shapes.</p>
                 <button 
-                    onClick={() => initFluid()}
+                    onClick={() => resetFluid()}
                     className="mt-3 bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded text-sm font-bold w-full transition-colors"
                 >
                     RESET FLUID
@@ -0,0 +1,135 @@
+import { AirfoilSettings, Point } from '../types';
+
+// Camber-line constants of the 5-digit series for a design lift coefficient of 0.3,
+// by the first three digits (Abbott & von Doenhoff 1959; reflexed lines from NASA
+// TM-4741): m locates the junction of the cubic and the straight (or reflexed) part
+const FIVE_DIGIT_CAMBER: Record<string, { m: number; k1: number; k2k1?: number }> = {
+  '210': { m: 0.058, k1: 361.4 },
+  '220': { m: 0.126, k1: 51.64 },
+  '230': { m: 0.2025, k1: 15.957 },
+  '240': { m: 0.29, k1: 6.643 },
+  '250': { m: 0.391, k1: 3.23 },
+  '221': { m: 0.13, k1: 51.99, k2k1: 0.000764 },
+  '231': { m: 0.217, k1: 15.793, k2k1: 0.00677 },
+  '241': { m: 0.318, k1: 6.52, k2k1: 0.0303 },
+  '251': { m: 0.441, k1: 3.191, k2k1: 0.1355 }
+};
+
+export interface CamberPoint {
+  y: number; // y/c of the mean line
+  slope: number; // dy/dx
+}
+
+export interface NacaSection {
+  designation: string;
+  series: 4 | 5;
+  thickness: number; // t/c
+  maxCamber: number; // y/c of the highest point of the mean line
+  camberAt: (x: number) => CamberPoint; // x/c in [0, 1]
+}
+
+export interface NacaParseResult {
+  section: NacaSection | null;
+  error: string | null; // Why the designation was rejected, null when it was accepted
+}
+
+const fourDigitCamber = (m: number, p: number) => (x: number): CamberPoint => {
+  if (m === 0) return { y: 0, slope: 0 };
+  if (x < p) return { y: (m / (p * p)) * (2 * p * x - x * x), slope: ((2 * m) / (p * p)) * (p - x) };
+  const q = (1 - p) * (1 - p);
+  return { y: (m / q) * (1 - 2 * p + 2 * p * x - x * x), slope: ((2 * m) / q) * (p - x) };
+};
+
+// The tabulated lines scale linearly with the design lift coefficient
+const fiveDigitCamber = (m: number, k1: number, k2k1: number | undefined, scale: number) => (x: number): CamberPoint => {
+  const k = (scale * k1) / 6;
+  if (k2k1 === undefined) {
+    if (x < m) return { y: k * (x ** 3 - 3 * m * x * x + m * m * (3 - m) * x), slope: k * (3 * x * x - 6 * m * x + m * m * (3 - m)) };
+    return { y: k * m ** 3 * (1 - x), slope: -k * m ** 3 };
+  }
+  const tail = k2k1 * (1 - m) ** 3 + m ** 3;
+  if (x < m) return { y: k * ((x - m) ** 3 - tail * x + m ** 3), slope: k * (3 * (x - m) ** 2 - tail) };
+  return { y: k * (k2k1 * (x - m) ** 3 - tail * x + m ** 3), slope: k * (3 * k2k1 * (x - m) ** 2 - tail) };
+};
+
+/**
+ * Reads a NACA 4-digit (MPTT: camber in % chord, its position in tenths, thickness in %)
+ * or 5-digit (LPSTT: design lift coefficient in 0.15 steps, camber position in 5% steps,
+ * 1 for a reflexed mean line, thickness in %) designation. A leading "NACA" and spaces
+ * are ignored.
+ */
+export const parseNacaDesignation = (designation: string): NacaParseResult => {
+  const digits = designation.trim().toUpperCase().replace(/^NACA/, '').replace(/[\s-]/g, '');
+  const reject = (error: string): NacaParseResult => ({ section: null, error });
+  if (!/^\d+$/.test(digits)) return reject('Digits only, e.g. 2412 or 23012');
+  if (digits.length !== 4 && digits.length !== 5) return reject('Use 4 digits (2412) or 5 digits (23012)');
+
+  const thickness = parseInt(digits.slice(-2), 10) / 100;
+  if (thickness < 0.01 || thickness > 0.4) return reject('Thickness must be between 1% and 40%');
+
+  let camberAt: NacaSection['camberAt'];
+  if (digits.length === 4) {
+    const m = parseInt(digits[0], 10) / 100;
+    const p = parseInt(digits[1], 10) / 10;
+    if (m > 0 && p === 0) return reject('A cambered section needs the camber position (2nd digit)');
+    camberAt = fourDigitCamber(m, p);
+  } else {
+    const design = parseInt(digits[0], 10) * 0.15;
+    const line = FIVE_DIGIT_CAMBER[`2${digits.slice(1, 3)}`];
+    if (digits[2] !== '0' && digits[2] !== '1') return reject('3rd digit is 0 (standard) or 1 (reflexed)');
+    if (design === 0) return reject('Design lift coefficient (1st digit) must be at least 1');
+    if (!line) {
+      return reject(digits[2] === '1'
+        ? 'Reflexed camber position (2nd digit) must be 2 to 5'
+        : 'Camber position (2nd digit) must be 1 to 5');
+    }
+    camberAt = fiveDigitCamber(line.m, line.k1, line.k2k1, design / 0.3);
+  }
+
+  let maxCamber = 0;
+  for (let i = 0; i <= 200; i++) maxCamber = Math.max(maxCamber, camberAt(i / 200).y);
+  return {
+    section: { designation: digits, series: digits.length === 4 ? 4 : 5, thickness, maxCamber, camberAt },
+    error: null
+  };
+};
+
+// Half thickness of the NACA 00xx family; the last coefficient closes the trailing edge
+export const nacaHalfThickness = (x: number, t: number, sharp: boolean) =>
+  5 * t * (0.2969 * Math.sqrt(x) - 0.126 * x - 0.3516 * x * x + 0.2843 * x ** 3 - (sharp ? 0.1036 : 0.1015) * x ** 4);
+
+/**
+ * Contour of a NACA section at unit chord, y up, in Selig order: from the trailing edge
+ * over the upper surface to the leading edge and back along the lower surface. Stations
+ * are cosine-spaced so points cluster at both edges. A blunt trailing edge is left open
+ * (the closing segment is the base); a sharp one ends where it started.
+ */
+export const nacaContour = (section: NacaSection, pointCount: number, sharpTrailingEdge: boolean): Point[] => {
+  const stations = Math.max(8, Math.ceil(pointCount / 2));
+  const surface = (side: 1 | -1) => {
+    const points: Point[] = [];
+    for (let i = 0; i <= stations; i++) {
+      const x = 0.5 * (1 - Math.cos((i / stations) * Math.PI));
+      const { y, slope } = section.camberAt(x);
+      const yt = nacaHalfThickness(x, section.thickness, sharpTrailingEdge);
+      const theta = Math.atan(slope);
+      points.push({ x: x - side * yt * Math.sin(theta), y: y + side * yt * Math.cos(theta) });
+    }
+    return points;
+  };
+  const upper = surface(1).reverse();
+  const lower = surface(-1).slice(1); // the leading edge is shared
+  return sharpTrailingEdge ? [...upper, ...lower.slice(0, -1)] : [...upper, ...lower];
+};
+
+// Stands in while the entered designation is not valid
+const NACA_0012: NacaSection = { designation: '0012', series: 4, thickness: 0.12, maxCamber: 0, camberAt: fourDigitCamber(0, 0) };
+
+/**
+ * The airfoil shape of the current settings, or a NACA 0012 while the designation is
+ * not valid.
+ */
+export const airfoilContour = (settings: AirfoilSettings): Point[] => {
+  const section = parseNacaDesignation(settings.designation).section ?? NACA_0012;
+  return nacaContour(section, settings.pointCount, settings.sharpTrailingEdge);
+};
@@ -0,0 +1,157 @@
+import { AirfoilDatFormat, ImportedAirfoil, Point } from '../types';
+import { findChordLine } from './geometry';
+
+// Base vertices within this fraction of the chord of the most downstream one form a
+// blunt trailing edge (the same tolerance findChordLine uses)
+const TE_TOLERANCE = 0.005;
+// x may step back by this fraction of the chord before a surface counts as unordered
+const ORDER_TOLERANCE = 1e-4;
+// Fewest coordinates that still describe a closed section
+const MIN_POINTS = 5;
+
+export interface AirfoilDatResult {
+  airfoil: ImportedAirfoil | null;
+  error: string | null; // What is wrong with the file, null when it was read
+}
+
+interface Row {
+  line: number; // 1-based line in the file
+  point: Point;
+}
+
+/**
+ * Moves a closed section contour (any orientation, any start point) into the usual
+ * airfoil frame: leading edge at the origin, trailing edge at (1, 0), y up. The points
+ * are returned in Selig order, starting at the trailing edge (the upper corner of a
+ * blunt base) and running over the upper surface; there is no repeated end point.
+ */
+export const normaliseAirfoil = (points: Point[]): Point[] => {
+  const { leadingEdge, trailingEdge, length } = findChordLine(points);
+  if (points.length < 3 || length === 0) return [];
+
+  const cos = (trailingEdge.x - leadingEdge.x) / length;
+  const sin = (trailingEdge.y - leadingEdge.y) / length;
+  let unit = points.map(p => {
+    const dx = p.x - leadingEdge.x, dy = p.y - leadingEdge.y;
+    return { x: (dx * cos + dy * sin) / length, y: (dy * cos - dx * sin) / length };
+  });
+
+  // Counter-clockwise with y up runs from the trailing edge over the upper surface
+  let area = 0;
+  for (let i = 0; i < unit.length; i++) {
+    const a = unit[i], b = unit[(i + 1) % unit.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  if (area < 0) unit = unit.reverse();
+
+  // Start at the most downstream vertex, then climb a blunt base to its upper corner
+  let start = 0;
+  unit.forEach((p, i) => {
+    if (p.x > unit[start].x) start = i;
+  });
+  for (let k = 0; k < unit.length; k++) {
+    const next = unit[(start + 1) % unit.length];
+    const rise = next.y - unit[start].y;
+    if (next.x < unit[start].x - TE_TOLERANCE || rise <= Math.abs(next.x - unit[start].x)) break;
+    start = (start + 1) % unit.length;
+  }
+  const ordered = [...unit.slice(start), ...unit.slice(0, start)];
+  const last = ordered[ordered.length - 1];
+  if (Math.hypot(last.x - ordered[0].x, last.y - ordered[0].y) < 1e-9) ordered.pop();
+  return ordered;
+};
+
+// Index of the first row whose x steps back against `direction` (+1 rising, -1 falling)
+const firstUnordered = (rows: Row[], direction: 1 | -1, span: number): number => {
+  for (let i = 1; i < rows.length; i++) {
+    if (direction * (rows[i].point.x - rows[i - 1].point.x) < -ORDER_TOLERANCE * span) return i;
+  }
+  return -1;
+};
+
+/**
+ * Reads a UIUC-style .dat file. Selig files list the coordinates from the trailing edge
+ * over the upper surface to the leading edge and back along the lower surface. Lednicer
+ * files give the point count of each surface on the line after the name, then each
+ * surface from the leading edge to the trailing edge. The first line is the name unless
+ * it already holds coordinates; blank lines and lines starting with '#' are skipped.
+ * The result is normalised to unit chord.
+ */
+export const parseAirfoilDat = (text: string, fallbackName = 'Imported'): AirfoilDatResult => {
+  const reject = (error: string): AirfoilDatResult => ({ airfoil: null, error });
+  const lines = text.split(/\r?\n/).map((content, i) => ({ line: i + 1, content: content.trim() }))
+    .filter(l => l.content !== '' && !l.content.startsWith('#'));
+  if (lines.length === 0) return reject('The file is empty');
+
+  const numbers = (content: string) => {
+    const values = content.split(/[\s,;]+/).map(Number);
+    return values.length === 2 && values.every(Number.isFinite) ? values : null;
+  };
+
+  let name = fallbackName;
+  if (!numbers(lines[0].content)) {
+    name = lines[0].content;
+    lines.shift();
+  }
+  const rows: Row[] = [];
+  for (const l of lines) {
+    const values = numbers(l.content);
+    if (!values) return reject(`Line ${l.line}: expected two numbers, found "${l.content.slice(0, 40)}"`);
+    rows.push({ line: l.line, point: { x: values[0], y: values[1] } });
+  }
+
+  // Lednicer: a header of two whole point counts, larger than any coordinate
+  const header = rows[0]?.point;
+  const lednicer = header !== undefined && header.x >= 2 && header.y >= 2
+    && Number.isInteger(header.x) && Number.isInteger(header.y);
+  const format: AirfoilDatFormat = lednicer ? 'lednicer' : 'selig';
+  let contour: Row[];
+
+  if (lednicer) {
+    const upperCount = header.x, lowerCount = header.y;
+    const coordinates = rows.slice(1);
+    if (coordinates.length !== upperCount + lowerCount) {
+      return reject(`Lednicer header (line ${rows[0].line}) announces ${upperCount} + ${lowerCount} points, the file has ${coordinates.length}`);
+    }
+    const upper = coordinates.slice(0, upperCount);
+    const lower = coordinates.slice(upperCount);
+    const span = Math.max(...coordinates.map(r => r.point.x)) - Math.min(...coordinates.map(r => r.point.x));
+    for (const [surface, label] of [[upper, 'Upper'], [lower, 'Lower']] as [Row[], string][]) {
+      const bad = firstUnordered(surface, 1, span);
+      if (bad >= 0) return reject(`${label} surface is not ordered from leading to trailing edge: x turns back at line ${surface[bad].line}`);
+    }
+    // Both surfaces start at the leading edge; keep it once
+    const shared = Math.hypot(upper[0].point.x - lower[0].point.x, upper[0].point.y - lower[0].point.y) < 1e-9;
+    contour = [...upper.reverse(), ...(shared ? lower.slice(1) : lower)];
+  } else {
+    contour = rows;
+    const xs = rows.map(r => r.point.x);
+    const span = Math.max(...xs) - Math.min(...xs);
+    const nose = xs.indexOf(Math.min(...xs));
+    const falling = firstUnordered(rows.slice(0, nose + 1), -1, span);
+    const rising = firstUnordered(rows.slice(nose), 1, span);
+    if (falling >= 0 || rising >= 0) {
+      const line = falling >= 0 ? rows[falling].line : rows[nose + rising].line;
+      return reject(`Not in Selig order (trailing edge, upper surface, leading edge, lower surface): x turns back at line ${line}`);
+    }
+  }
+
+  if (contour.length < MIN_POINTS) return reject(`Only ${contour.length} coordinates; a section needs at least ${MIN_POINTS}`);
+  const points = normaliseAirfoil(contour.map(r => r.point));
+  if (points.length < 3) return reject('All coordinates lie on one point');
+  return { airfoil: { name, format, points }, error: null };
+};
+
+/**
+ * Writes a section as a Selig .dat file, the format XFoil and XFLR5 read, normalised to
+ * unit chord. A sharp trailing edge is repeated at the end as those programs expect.
+ */
+export const airfoilToDat = (name: string, points: Point[]): string => {
+  const section = normaliseAirfoil(points);
+  if (section.length === 0) return '';
+  // A blunt base ends on its lower corner, straight below the start
+  const last = section[section.length - 1];
+  if (last.x < section[0].x - TE_TOLERANCE) section.push(section[0]);
+  const format = (v: number) => v.toFixed(6).padStart(10);
+  return [name, ...section.map(p => `${format(p.x)} ${format(p.y)}`)].join('\n') + '\n';
+};
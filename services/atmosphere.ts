@@ -0,0 +1,83 @@
+// International Standard Atmosphere, troposphere (0 - 11 km)
+const T0 = 288.15; // K, sea-level temperature
+const P0 = 101325; // Pa, sea-level pressure
+const LAPSE_RATE = 0.0065; // K/m
+const R_AIR = 287.05; // J/(kg K)
+const G0 = 9.80665; // m/s^2
+const GAMMA = 1.4;
+const TROPOPAUSE = 11000; // m
+
+// Sutherland's law for air
+const MU_REF = 1.716e-5; // Pa s at T_REF
+const T_REF = 273.15; // K
+const SUTHERLAND_S = 110.4; // K
+
+const RHO0 = P0 / (R_AIR * T0);
+const PRESSURE_EXPONENT = G0 / (R_AIR * LAPSE_RATE);
+
+export interface AtmosphereState {
+  altitude: number; // m, pressure altitude
+  temperature: number; // K
+  pressure: number; // Pa
+  density: number; // kg/m^3
+  dynamicViscosity: number; // Pa s
+  kinematicViscosity: number; // m^2/s
+  speedOfSound: number; // m/s
+  densityAltitude: number; // m, ISA altitude with the same density
+}
+
+/**
+ * Sutherland's law: mu = mu_ref (T / T_ref)^1.5 (T_ref + S) / (T + S)
+ */
+export const sutherlandViscosity = (temperature: number): number =>
+  MU_REF * Math.pow(temperature / T_REF, 1.5) * (T_REF + SUTHERLAND_S) / (temperature + SUTHERLAND_S);
+
+/**
+ * ISA conditions at a pressure altitude with a temperature offset from standard
+ * (ISA+15 on a hot summer launch). Pressure follows the standard column; the offset
+ * only changes temperature, hence density and viscosity. `viscosityFactor` scales the
+ * Sutherland viscosity (1 = real air).
+ */
+export const standardAtmosphere = (
+  altitude: number,
+  temperatureOffset: number = 0,
+  viscosityFactor: number = 1
+): AtmosphereState => {
+  const h = Math.max(0, Math.min(TROPOPAUSE, altitude));
+  const standardTemperature = T0 - LAPSE_RATE * h;
+  const temperature = standardTemperature + temperatureOffset;
+  const pressure = P0 * Math.pow(standardTemperature / T0, PRESSURE_EXPONENT);
+  const density = pressure / (R_AIR * temperature);
+  const dynamicViscosity = sutherlandViscosity(temperature) * viscosityFactor;
+
+  // Invert the ISA density profile rho/rho0 = (T/T0)^(g/(R L) - 1)
+  const densityAltitude = (T0 / LAPSE_RATE) * (1 - Math.pow(density / RHO0, 1 / (PRESSURE_EXPONENT - 1)));
+
+  return {
+    altitude: h,
+    temperature,
+    pressure,
+    density,
+    dynamicViscosity,
+    kinematicViscosity: dynamicViscosity / density,
+    speedOfSound: Math.sqrt(GAMMA * R_AIR * temperature),
+    densityAltitude
+  };
+};
+
+/**
+ * Temperature offset from ISA that puts the density altitude at `densityAltitude` for the
+ * given pressure altitude: the standard density of the density altitude at the standard
+ * pressure of the pressure altitude fixes the temperature. The inverse of the
+ * `densityAltitude` that `standardAtmosphere` reports.
+ */
+export const temperatureOffsetForDensityAltitude = (altitude: number, densityAltitude: number): number => {
+  const h = Math.max(0, Math.min(TROPOPAUSE, altitude));
+  const standardTemperature = T0 - LAPSE_RATE * h;
+  const pressure = P0 * Math.pow(standardTemperature / T0, PRESSURE_EXPONENT);
+  const hd = Math.min(TROPOPAUSE, densityAltitude);
+  const density = RHO0 * Math.pow(1 - (LAPSE_RATE * hd) / T0, PRESSURE_EXPONENT - 1);
+  return pressure / (R_AIR * density) - standardTemperature;
+};
+
+export const SEA_LEVEL = standardAtmosphere(0);
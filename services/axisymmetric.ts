@@ -0,0 +1,242 @@
+import { CpPoint, PhysicsResult, Point } from '../types';
+import { findChordLine } from './geometry';
+import { solveLinearSystem } from './physics';
+import { solveBoundaryLayer, SurfaceStation } from './boundaryLayer';
+import { AtmosphereState, SEA_LEVEL } from './atmosphere';
+
+export interface AxisymmetricOptions {
+  atmosphere?: AtmosphereState; // defaults to ISA sea level
+  panels?: number; // along the meridian, nose to tail
+  momentReference?: number; // x/c, only echoed: axial flow carries no moment
+}
+
+const DEFAULT_PANELS = 80;
+// Base pressure of a separated axisymmetric wake (subcritical sphere), caps the suction
+// carried from the separation point onto the base
+const BASE_PRESSURE_LIMIT = -0.4;
+
+// Gauss-Legendre abscissae and weights on [-1, 1], 8 points
+const GAUSS_X = [-0.9602898565, -0.7966664774, -0.5255324099, -0.1834346425, 0.1834346425, 0.5255324099, 0.7966664774, 0.9602898565];
+const GAUSS_W = [0.1012285363, 0.2223810345, 0.3137066459, 0.3626837834, 0.3626837834, 0.3137066459, 0.2223810345, 0.1012285363];
+
+/**
+ * Complete elliptic integrals K(k) and E(k) by the arithmetic-geometric mean.
+ */
+const ellipticKE = (k: number): { K: number; E: number } => {
+  let a = 1;
+  let b = Math.sqrt(Math.max(0, 1 - k * k));
+  let power = 0.5;
+  let sum = power * k * k;
+  for (let n = 0; n < 40 && Math.abs(a - b) > 1e-15 * a; n++) {
+    const c = (a - b) / 2;
+    [a, b] = [(a + b) / 2, Math.sqrt(a * b)];
+    power *= 2;
+    sum += power * c * c;
+  }
+  const K = Math.PI / (2 * a);
+  return { K, E: K * (1 - sum) };
+};
+
+/**
+ * Stokes stream function at (x, r) of a vortex ring of unit strength and radius `a` at
+ * axial station `xr` (Lamb): psi = (r1 + r2) (K(k) - E(k)) / 2 pi with r1, r2 the
+ * nearest and furthest distances to the ring and k = (r2 - r1) / (r2 + r1).
+ */
+const ringStreamFunction = (x: number, r: number, xr: number, a: number): number => {
+  const dx = x - xr;
+  const r1 = Math.hypot(dx, r - a);
+  const r2 = Math.hypot(dx, r + a);
+  if (r2 === 0) return 0;
+  const { K, E } = ellipticKE((r2 - r1) / (r2 + r1));
+  return ((r1 + r2) * (K - E)) / (2 * Math.PI);
+};
+
+interface RingPanel {
+  x0: number;
+  r0: number;
+  x1: number;
+  r1: number;
+  length: number;
+  xm: number; // midpoint, the collocation point
+  rm: number;
+}
+
+/**
+ * The meridian of the body of revolution that has the contour's thickness distribution:
+ * at cosine-spaced stations along the chord line the radius is half the thickness
+ * across the contour. Runs from the nose to the tail on the axis (x along the chord,
+ * r from it); a flat face or base is closed down to the axis.
+ */
+const meridianOf = (outline: Point[], stations: number): Point[] => {
+  const { leadingEdge, trailingEdge, length } = findChordLine(outline);
+  if (length === 0) return [];
+  const cos = (trailingEdge.x - leadingEdge.x) / length;
+  const sin = (trailingEdge.y - leadingEdge.y) / length;
+  const local = outline.map(p => {
+    const dx = p.x - leadingEdge.x, dy = p.y - leadingEdge.y;
+    return { x: dx * cos + dy * sin, y: dy * cos - dx * sin };
+  });
+  // The extreme vertices, not the chord line's ends, bound the body: a rounded tail's
+  // trailing edge sits a little inside its tip
+  const nose = Math.min(...local.map(p => p.x));
+  const tail = Math.max(...local.map(p => p.x));
+
+  const radiusAt = (x: number) => {
+    let lo = Infinity, hi = -Infinity;
+    local.forEach((a, i) => {
+      const b = local[(i + 1) % local.length];
+      if ((a.x - x) * (b.x - x) > 0) return;
+      const ys = a.x === b.x ? [a.y, b.y] : [a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y)];
+      ys.forEach(y => {
+        lo = Math.min(lo, y);
+        hi = Math.max(hi, y);
+      });
+    });
+    return hi > lo ? (hi - lo) / 2 : 0;
+  };
+
+  const nodes: Point[] = [];
+  for (let i = 0; i <= stations; i++) {
+    const x = i === stations ? tail : nose + ((tail - nose) * (1 - Math.cos((Math.PI * i) / stations))) / 2;
+    nodes.push({ x: x - nose, y: radiusAt(x) });
+  }
+  if (nodes[0].y > 0) nodes.unshift({ x: 0, y: 0 });
+  if (nodes[nodes.length - 1].y > 0) nodes.push({ x: tail - nose, y: 0 });
+  return nodes;
+};
+
+/**
+ * Axisymmetric panel method for a body of revolution in axial flow. The meridian is
+ * covered with conical panels of constant ring-vortex strength; as in the planar solver
+ * the body is a streamline (Stokes stream function psi = V r^2 / 2 + sum gamma psi_ring
+ * = 0, the value on the axis) so the interior is at rest and the sheet strength is the
+ * surface speed. The self-influence of each panel has its logarithmic singularity
+ * subtracted and integrated exactly. The integral boundary layer runs along the
+ * meridian from the nose, with the separated wake's base pressure acting over the
+ * disc where the layer leaves.
+ * The main body (metres, y up, as for calculatePhysics) is turned into the body of
+ * revolution with its thickness distribution; incidence is not modelled. Drag is
+ * reported as a drag area and as a coefficient on the frontal area, forces in N.
+ */
+export const calculateAxisymmetric = (
+  outline: Point[],
+  speed: number, // m/s
+  options: AxisymmetricOptions = {}
+): PhysicsResult => {
+  const { atmosphere = SEA_LEVEL, panels = DEFAULT_PANELS, momentReference = 0.25 } = options;
+  const V_inf = speed;
+  const nu = atmosphere.kinematicViscosity;
+
+  const nodes = meridianOf(outline, Math.max(8, Math.round(panels)));
+  const length = nodes.length > 0 ? nodes[nodes.length - 1].x : 0;
+  const rings: RingPanel[] = [];
+  for (let j = 0; j < nodes.length - 1; j++) {
+    const a = nodes[j], b = nodes[j + 1];
+    const panelLength = Math.hypot(b.x - a.x, b.y - a.y);
+    // Panels lying on the axis carry no ring
+    if (panelLength < 1e-9 * length || (a.y === 0 && b.y === 0)) continue;
+    rings.push({
+      x0: a.x, r0: a.y, x1: b.x, r1: b.y, length: panelLength, xm: (a.x + b.x) / 2, rm: (a.y + b.y) / 2
+    });
+  }
+
+  // Stream function at (x, r) of panel j with unit strength, integrated along it from
+  // fraction u0 to u1
+  const panelStream = (x: number, r: number, p: RingPanel, u0: number, u1: number) => {
+    let psi = 0;
+    GAUSS_X.forEach((g, k) => {
+      const u = u0 + ((g + 1) / 2) * (u1 - u0);
+      psi += GAUSS_W[k] * ringStreamFunction(x, r, p.x0 + u * (p.x1 - p.x0), p.r0 + u * (p.r1 - p.r0));
+    });
+    return (psi * (u1 - u0) * p.length) / 2;
+  };
+
+  const A = rings.map((collocation, i) => rings.map((p, j) => {
+    if (i !== j) return panelStream(collocation.xm, collocation.rm, p, 0, 1);
+    // Near its own ring psi ~ (r / 2 pi)(ln(8r / d) - 2): the -ln d part is taken out
+    // of both halves and its integral, -2h(ln h - 1) over |s| < h, added back
+    const h = p.length / 2;
+    const singular = (s: number) => (-p.rm / (2 * Math.PI)) * Math.log(Math.abs(s));
+    let psi = 0;
+    [[0, 0.5], [0.5, 1]].forEach(([u0, u1]) => {
+      GAUSS_X.forEach((g, k) => {
+        const u = u0 + ((g + 1) / 2) * (u1 - u0);
+        const ring = ringStreamFunction(p.xm, p.rm, p.x0 + u * (p.x1 - p.x0), p.r0 + u * (p.r1 - p.r0));
+        psi += (GAUSS_W[k] * (ring - singular((u - 0.5) * p.length)) * (u1 - u0) * p.length) / 2;
+      });
+    });
+    return psi + (p.rm / (2 * Math.PI)) * -2 * h * (Math.log(h) - 1);
+  }));
+  const rhs = rings.map(p => -0.5 * V_inf * p.rm * p.rm);
+  let gamma: number[];
+  try {
+    gamma = rings.length > 0 ? solveLinearSystem(A, rhs) : [];
+  } catch (e) {
+    gamma = rings.map(() => 0);
+  }
+
+  // Surface speed and pressure at the panel midpoints, from the nose stagnation point
+  const ue = gamma.map(Math.abs);
+  const stations: SurfaceStation[] = [{ s: 0, xc: 0, ue: 0, r: 0 }];
+  const upper: CpPoint[] = [{ x: 0, cp: 1 }];
+  let s = 0;
+  rings.forEach((p, j) => {
+    stations.push({ s: s + p.length / 2, xc: p.xm / length, ue: ue[j], r: p.rm });
+    upper.push({ x: p.xm / length, cp: 1 - (ue[j] / V_inf) ** 2 });
+    s += p.length;
+  });
+
+  const maxRadius = Math.max(0, ...rings.map(p => Math.max(p.r0, p.r1)));
+  const frontalArea = Math.PI * maxRadius * maxRadius;
+  const wettedArea = rings.reduce((sum, p) => sum + Math.PI * (p.r0 + p.r1) * p.length, 0);
+  const bl = solveBoundaryLayer(stations, nu, V_inf, frontalArea || 1);
+
+  // Squire-Young on the momentum area of the layer, then the separated base
+  let dragArea = bl.profileDrag * frontalArea;
+  if (bl.separation !== null) {
+    const end = stations[Math.max(bl.stations.length - 1, 0)];
+    const cpBase = Math.max(BASE_PRESSURE_LIMIT, Math.min(0, 1 - (end.ue / V_inf) ** 2));
+    dragArea += -cpBase * Math.PI * (end.r ?? 0) ** 2;
+  }
+  const frictionDragArea = bl.frictionDrag * frontalArea;
+  const cd = frontalArea > 0 ? dragArea / frontalArea : 0;
+
+  const suctionPeak = upper.reduce((peak, pt) => (pt.cp < peak.cp ? pt : peak), upper[0]);
+  const dynamicPressure = 0.5 * atmosphere.density * V_inf * V_inf;
+
+  return {
+    liftCoefficient: 0,
+    dragCoefficient: cd,
+    momentCoefficient: 0,
+    reynoldsNumber: (V_inf * length) / nu,
+    dynamicPressure,
+    liftForce: 0,
+    dragForce: dynamicPressure * dragArea,
+    density: atmosphere.density,
+    kinematicViscosity: nu,
+    // Every meridian plane sees the same flow; both sides show it
+    cpDistribution: {
+      upper,
+      lower: upper.map(pt => ({ ...pt })),
+      stagnation: { x: 0, surface: 'upper' },
+      suctionPeak: { ...suctionPeak, surface: 'upper' }
+    },
+    centerOfPressure: momentReference,
+    momentReference,
+    aerodynamicCenter: null,
+    chordLength: length,
+    boundaryLayer: { upper: bl, lower: bl },
+    bodies: [{ liftCoefficient: 0, dragCoefficient: cd, momentCoefficient: 0, kuttaCondition: false, stalled: false }],
+    stalled: false,
+    ramPressure: null,
+    axisymmetric: {
+      length,
+      maxDiameter: 2 * maxRadius,
+      frontalArea,
+      wettedArea,
+      dragArea,
+      frictionDragArea,
+      pressureDragArea: Math.max(0, dragArea - frictionDragArea)
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePhysics } from './physics';
+import { airfoilContour } from './airfoil';
+import { preprocessGeometry } from './geometry';
+import { SEA_LEVEL } from './atmosphere';
+
+const REYNOLDS = 1.37e6;
+const ALPHA = 4; // degrees
+const PANEL_COUNTS = [100, 150, 200, 300, 400];
+
+describe('boundary layer', () => {
+  it('keeps transition and drag independent of the panel count', () => {
+    // The app's path: a coarse generated contour repaneled to the chosen count
+    const section = airfoilContour({ designation: '2412', pointCount: 80, sharpTrailingEdge: false });
+    const speed = REYNOLDS * SEA_LEVEL.kinematicViscosity; // unit chord
+    const [reference, ...finer] = PANEL_COUNTS.map(panelCount => {
+      const { points } = preprocessGeometry(section, { panelCount });
+      return calculatePhysics([points], speed, ALPHA, { referenceLength: 1 });
+    });
+    expect(reference.boundaryLayer.upper.laminarSeparation).toBe(false);
+
+    finer.forEach((result, k) => {
+      const label = `${PANEL_COUNTS[k + 1]} panels`;
+      const { upper } = result.boundaryLayer;
+      expect(upper.laminarSeparation, label).toBe(false);
+      expect(upper.separation, label).toBeNull();
+      expect(upper.transition! - reference.boundaryLayer.upper.transition!, label).toBeCloseTo(0, 1);
+      expect(result.dragCoefficient / reference.dragCoefficient - 1, label).toBeCloseTo(0, 1);
+      expect(result.liftCoefficient / reference.liftCoefficient - 1, label).toBeCloseTo(0, 1);
+    });
+  });
+});
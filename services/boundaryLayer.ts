@@ -0,0 +1,239 @@
+import { BoundaryLayerSurface } from '../types';
+
+/**
+ * One surface point handed over from the panel method, ordered from the stagnation
+ * point towards the trailing edge.
+ */
+export interface SurfaceStation {
+  s: number;  // m, arc length from the stagnation point
+  xc: number; // chordwise position x/c
+  ue: number; // m/s, edge velocity (magnitude of the surface velocity)
+  r?: number; // m, distance from the axis on a body of revolution, omitted in planar flow
+}
+
+// Thwaites parameter below which the laminar layer separates
+const LAMINAR_SEPARATION_LAMBDA = -0.09;
+// Shape factor at which a turbulent layer is considered separated (Head)
+const TURBULENT_SEPARATION_H = 2.4;
+// Shape factor a turbulent layer starts with after transition
+const TRANSITION_H = 1.4;
+// Sub-steps per panel for the turbulent ODE march
+const TURBULENT_SUBSTEPS = 4;
+// Hiemenz start, theta^2 = k nu / (dUe/ds), for a planar and an axisymmetric stagnation point
+const PLANAR_STAGNATION = 0.075;
+const AXISYMMETRIC_STAGNATION = 0.056;
+// Edge-velocity gradients are least-squares slopes over this fraction of the surface
+// length. A contour repaneled finer than its source vertices has small facets whose
+// corners make the edge velocity ripple round the nose; the slope must not follow them.
+const GRADIENT_WINDOW = 0.03;
+// Arc length, as a fraction of the surface, over which the flow must keep decelerating
+// before a laminar separation counts, so the stagnation region cannot force transition
+const MIN_ADVERSE_LENGTH = 0.02;
+// Layer thickness in momentum thicknesses, roughly; a closing tail whose radius falls
+// below it is beyond thin-layer theory
+const LAYER_THICKNESS_RATIO = 8;
+
+/**
+ * Thwaites' correlations for shear l(lambda) and shape factor H(lambda)
+ * (Cebeci & Bradshaw fits).
+ */
+function thwaitesCorrelations(lambda: number): { l: number; H: number } {
+  const lam = Math.max(-0.1, Math.min(0.1, lambda));
+  if (lam >= 0) {
+    return {
+      l: 0.22 + 1.57 * lam - 1.8 * lam * lam,
+      H: 2.61 - 3.75 * lam + 5.24 * lam * lam
+    };
+  }
+  return {
+    l: 0.22 + 1.402 * lam + (0.018 * lam) / (lam + 0.107),
+    H: 2.088 + 0.0731 / (lam + 0.14)
+  };
+}
+
+/**
+ * Michel's transition criterion: the layer turns turbulent once Re_theta exceeds
+ * 1.174 (1 + 22400 / Re_x) Re_x^0.46.
+ */
+function michelTransition(reTheta: number, reX: number): boolean {
+  if (reX <= 0) return false;
+  return reTheta >= 1.174 * (1 + 22400 / reX) * Math.pow(reX, 0.46);
+}
+
+// Head's entrainment shape factor H1(H) and its inverse
+function headH1(H: number): number {
+  return H <= 1.6
+    ? 3.3 + 0.8234 * Math.pow(H - 1.1, -1.287)
+    : 3.3 + 1.5501 * Math.pow(H - 0.6778, -3.064);
+}
+
+function headH(H1: number): number {
+  const h1 = Math.max(H1, 3.3001);
+  return h1 >= 5.3
+    ? 1.1 + Math.pow((h1 - 3.3) / 0.8234, -1 / 1.287)
+    : 0.6778 + Math.pow((h1 - 3.3) / 1.5501, -1 / 3.064);
+}
+
+// Entrainment function F(H1) = (1/Ue) d(Ue theta H1)/ds
+const headEntrainment = (H1: number) => 0.0306 * Math.pow(Math.max(H1 - 3, 1e-6), -0.6169);
+
+// Ludwieg-Tillmann turbulent skin friction
+const ludwiegTillmann = (H: number, reTheta: number) =>
+  0.246 * Math.pow(10, -0.678 * H) * Math.pow(Math.max(reTheta, 1), -0.268);
+
+/**
+ * Integral boundary layer along one surface, marched from the stagnation point:
+ * Thwaites for the laminar part, Michel for transition (or transition forced by
+ * laminar separation, i.e. a short bubble), Head's entrainment method for the
+ * turbulent part. Profile drag follows from Squire-Young at the trailing edge, or
+ * at the separation point when the layer leaves the surface earlier.
+ * When every station carries a radius the surface is the meridian of a body of
+ * revolution: Thwaites becomes Rott-Crabtree (the integral weighted by r^2), Head's
+ * equations gain the spreading terms -(theta/r) dr/ds, and drag integrates over the
+ * circumference 2 pi r. The coefficients then refer to an area rather than the chord.
+ * The march ends where a closing tail gets thinner than the layer.
+ */
+export const solveBoundaryLayer = (
+  stations: SurfaceStation[],
+  nu: number, // m^2/s
+  vInf: number, // m/s
+  reference: number // m, chord; m^2 (frontal area) on a body of revolution
+): BoundaryLayerSurface => {
+  const result: BoundaryLayerSurface = {
+    transition: null,
+    laminarSeparation: false,
+    separation: null,
+    momentumThickness: 0,
+    shapeFactor: 0,
+    frictionDrag: 0,
+    profileDrag: 0,
+    stations: []
+  };
+  if (stations.length < 3 || vInf <= 0) return result;
+
+  const ueMin = 1e-3 * vInf;
+  const ue = stations.map(st => Math.max(st.ue, ueMin));
+  const last = stations.length - 1;
+  const length = stations[last].s;
+  // Least-squares slope over the stations within the window, or at least the neighbours
+  const derivative = (values: number[]) => values.map((_, i) => {
+    let a = Math.max(0, i - 1);
+    let b = Math.min(last, i + 1);
+    while (a > 0 && stations[i].s - stations[a - 1].s <= GRADIENT_WINDOW * length) a--;
+    while (b < last && stations[b + 1].s - stations[i].s <= GRADIENT_WINDOW * length) b++;
+    const count = b - a + 1;
+    let sMean = 0, vMean = 0;
+    for (let j = a; j <= b; j++) {
+      sMean += stations[j].s / count;
+      vMean += values[j] / count;
+    }
+    let num = 0, den = 0;
+    for (let j = a; j <= b; j++) {
+      num += (stations[j].s - sMean) * (values[j] - vMean);
+      den += (stations[j].s - sMean) ** 2;
+    }
+    return den > 0 ? num / den : 0;
+  });
+  const dueds = derivative(ue);
+
+  // Planar flow is the limit of a constant radius; the circumference weights the drag
+  const axisymmetric = stations.every(st => st.r !== undefined);
+  const r = stations.map(st => st.r ?? 1);
+  const drds = axisymmetric ? derivative(r) : r.map(() => 0);
+  const span = (i: number) => (axisymmetric ? 2 * Math.PI * r[i] : 1);
+  const widest = r.indexOf(Math.max(...r));
+
+  let theta = 0;
+  let H = 0;
+  let cf = 0;
+  let turbulent = false;
+  let thwaitesIntegral = 0;
+  let adverseFrom = 0; // m, where the edge velocity last started to fall
+  let endIndex = last;
+
+  for (let i = 0; i < stations.length; i++) {
+    const st = stations[i];
+
+    if (!turbulent) {
+      if (i === 0) {
+        // Stagnation-point (Hiemenz) start
+        const k = axisymmetric ? AXISYMMETRIC_STAGNATION : PLANAR_STAGNATION;
+        theta = Math.sqrt(k * nu / Math.max(Math.abs(dueds[0]), 1e-6));
+      } else {
+        const ds = st.s - stations[i - 1].s;
+        thwaitesIntegral += 0.5 * (ue[i] ** 5 * r[i] ** 2 + ue[i - 1] ** 5 * r[i - 1] ** 2) * ds;
+        theta = Math.sqrt(0.45 * nu * thwaitesIntegral / (ue[i] ** 6 * r[i] ** 2));
+      }
+      const lambda = (theta * theta * dueds[i]) / nu;
+      if (dueds[i] >= 0) adverseFrom = st.s;
+      const corr = thwaitesCorrelations(lambda);
+      H = corr.H;
+      cf = (2 * corr.l * nu) / (ue[i] * theta);
+
+      const reTheta = (ue[i] * theta) / nu;
+      const reX = (ue[i] * st.s) / nu;
+      const laminarSeparation = lambda < LAMINAR_SEPARATION_LAMBDA &&
+        st.s - adverseFrom >= MIN_ADVERSE_LENGTH * length;
+      if (i > 0 && (michelTransition(reTheta, reX) || laminarSeparation)) {
+        turbulent = true;
+        result.transition = st.xc;
+        result.laminarSeparation = laminarSeparation;
+        H = TRANSITION_H;
+        cf = ludwiegTillmann(H, reTheta);
+      }
+    } else {
+      // Head's method: d(theta)/ds and d(Ue theta H1)/ds, Heun steps between stations
+      const ds = (st.s - stations[i - 1].s) / TURBULENT_SUBSTEPS;
+      for (let k = 0; k < TURBULENT_SUBSTEPS; k++) {
+        const f = (frac: number, th: number, y: number) => {
+          const u = ue[i - 1] + (ue[i] - ue[i - 1]) * frac;
+          const du = dueds[i - 1] + (dueds[i] - dueds[i - 1]) * frac;
+          const rr = r[i - 1] + (r[i] - r[i - 1]) * frac;
+          const spread = (drds[i - 1] + (drds[i] - drds[i - 1]) * frac) / rr;
+          const h = headH(y / (u * th));
+          const c = ludwiegTillmann(h, (u * th) / nu);
+          return {
+            dTheta: c / 2 - (h + 2) * (th / u) * du - th * spread,
+            dY: u * headEntrainment(y / (u * th)) - y * spread
+          };
+        };
+        const frac0 = k / TURBULENT_SUBSTEPS;
+        const frac1 = (k + 1) / TURBULENT_SUBSTEPS;
+        const u0 = ue[i - 1] + (ue[i] - ue[i - 1]) * frac0;
+        const y0 = u0 * theta * headH1(H);
+        const k1 = f(frac0, theta, y0);
+        const thPred = Math.max(theta + ds * k1.dTheta, 1e-9);
+        const yPred = y0 + ds * k1.dY;
+        const k2 = f(frac1, thPred, yPred);
+        theta = Math.max(theta + 0.5 * ds * (k1.dTheta + k2.dTheta), 1e-9);
+        const u1 = ue[i - 1] + (ue[i] - ue[i - 1]) * frac1;
+        H = headH((y0 + 0.5 * ds * (k1.dY + k2.dY)) / (u1 * theta));
+      }
+      cf = ludwiegTillmann(H, (ue[i] * theta) / nu);
+    }
+
+    result.stations.push({ x: st.xc, theta, H, cf });
+    if (i > 0) {
+      const ds = st.s - stations[i - 1].s;
+      result.frictionDrag += (cf * (ue[i] / vInf) ** 2 * span(i) * ds) / reference;
+    }
+
+    if (turbulent && H > TURBULENT_SEPARATION_H) {
+      result.separation = st.xc;
+      endIndex = i;
+      break;
+    }
+    if (axisymmetric && i > widest && r[i] < LAYER_THICKNESS_RATIO * theta) {
+      endIndex = i;
+      break;
+    }
+  }
+
+  // Squire-Young: wake momentum thickness far downstream from the values at the TE
+  const ueEnd = ue[endIndex];
+  result.momentumThickness = theta;
+  result.shapeFactor = H;
+  result.profileDrag = (2 * theta * span(endIndex) / reference) * Math.pow(ueEnd / vInf, (Math.min(H, 3) + 5) / 2);
+
+  return result;
+};
@@ -0,0 +1,38 @@
+import { Point, WingControls } from '../types';
+
+// Brake lines pull the rear of the section down from this x/c; the deflection grows
+// quadratically to the trailing edge, so the surface bends without a kink at the hinge
+const BRAKE_HINGE = 0.6;
+const BRAKE_DROP = 0.1; // trailing-edge drop at full brake, in chords
+// Full speed bar shortens the front risers: the section pitches nose down about the
+// quarter chord and the rear gains reflex (cubic from the hinge, like the mean line's)
+const SPEED_BAR_INCIDENCE = 4; // degrees
+const SPEED_BAR_REFLEX = 0.01; // trailing-edge rise at full bar, in chords
+const PITCH_AXIS: Point = { x: 0.25, y: 0 };
+
+export const NEUTRAL_CONTROLS: WingControls = { brake: 0, speedBar: 0 };
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+/**
+ * The section as flown with the given brake and speed-bar travel. Works on the unit-chord,
+ * y-up contour (generated, imported or paraglider) before it is placed on the canvas, so
+ * the panel method and the lattice see the same shape. Every point moves by a smooth
+ * function of its x/c: the brake and the reflex shear the rear vertically, then the bar
+ * turns the whole section nose down. At neutral the points come back unchanged.
+ */
+export const deformSection = (points: Point[], controls: WingControls): Point[] => {
+  const brake = clamp01(controls.brake);
+  const speedBar = clamp01(controls.speedBar);
+  if (brake === 0 && speedBar === 0) return points;
+
+  // Nose down with the leading edge on the left is a counter-clockwise turn (y up)
+  const turn = (SPEED_BAR_INCIDENCE * speedBar * Math.PI) / 180;
+  const cos = Math.cos(turn), sin = Math.sin(turn);
+  return points.map(p => {
+    const r = Math.max(0, (p.x - BRAKE_HINGE) / (1 - BRAKE_HINGE));
+    const y = p.y - BRAKE_DROP * brake * r * r + SPEED_BAR_REFLEX * speedBar * r ** 3;
+    const dx = p.x - PITCH_AXIS.x, dy = y - PITCH_AXIS.y;
+    return { x: PITCH_AXIS.x + dx * cos - dy * sin, y: PITCH_AXIS.y + dx * sin + dy * cos };
+  });
+};
@@ -0,0 +1,11 @@
+/**
+ * Hands `text` to the browser as a file download.
+ */
+export const downloadText = (filename: string, text: string, type = 'text/csv') => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,303 @@
+import { Colormap, FlowFieldMode } from '../types';
+import { FLUID_CELL } from './lbm';
+import { LbmStatisticsFields } from './lbmStatistics';
+
+// Lattice speed of sound squared
+const CS2 = 1 / 3;
+// Fraction of fluid cells sampled for the automatic colour range
+const RANGE_SAMPLE_STRIDE = 7;
+// Percentile (from either end) the automatic range clips at; wall spikes stay out of it
+const RANGE_PERCENTILE = 0.01;
+
+// Colormaps as evenly spaced stops; viridis, magma and turbo follow the matplotlib tables
+export const COLORMAP_STOPS: Record<Colormap, string[]> = {
+  viridis: ['#440154', '#482475', '#414487', '#355f8d', '#2a788e', '#21918c', '#22a884', '#44bf70', '#7ad151', '#bddf26', '#fde725'],
+  magma: ['#000004', '#140e36', '#3b0f70', '#641a80', '#8c2981', '#b73779', '#de4968', '#f7705c', '#fe9f6d', '#fecf92', '#fcfdbf'],
+  turbo: ['#30123b', '#4145ab', '#4675ed', '#39a2fc', '#1bcfd4', '#24eca6', '#61fc6c', '#a4fc3b', '#d1e834', '#f3c63a', '#fe9b2d', '#f36315', '#d93806', '#b11901', '#7a0403'],
+  coolwarm: ['#3b4cc0', '#6282ea', '#8db0fe', '#b8d0f9', '#dddcdc', '#f5c4ac', '#f49a7b', '#de604d', '#b40426'],
+  grayscale: ['#000000', '#ffffff']
+};
+
+export const FIELD_UNITS: Record<FlowFieldMode, string> = {
+  speed: 'm/s',
+  ux: 'm/s',
+  uy: 'm/s',
+  vorticity: '1/s',
+  pressure: 'Cp',
+  streamfunction: 'm²/s',
+  meanSpeed: 'm/s',
+  meanPressure: 'Cp',
+  rmsUx: 'm/s',
+  rmsUy: 'm/s',
+  reynoldsStress: 'm²/s²',
+  tke: 'm²/s²'
+};
+
+// Modes painted from the averaged fields rather than the current frame
+export const STATISTICS_MODES: FlowFieldMode[] = ['meanSpeed', 'meanPressure', 'rmsUx', 'rmsUy', 'reynoldsStress', 'tke'];
+
+// Signed quantities get a range symmetric about zero
+const SIGNED: Record<FlowFieldMode, boolean> = {
+  speed: false,
+  ux: false,
+  uy: true,
+  vorticity: true,
+  pressure: false,
+  streamfunction: false,
+  meanSpeed: false,
+  meanPressure: false,
+  rmsUx: false,
+  rmsUy: false,
+  reynoldsStress: true,
+  tke: false
+};
+
+// How the lattice maps onto the modelled flow
+export interface FieldScaling {
+  inletVelocity: number; // lattice units per step
+  speed: number; // m/s, modelled airspeed
+  cellSize: number; // m
+  stepTime: number; // s per lattice step
+}
+
+export interface FieldRange {
+  min: number;
+  max: number;
+}
+
+const lutCache = new Map<Colormap, Uint32Array>();
+
+/**
+ * 256-entry lookup table of a colormap, packed as 0xAABBGGRR for a little-endian
+ * ImageData view.
+ */
+export const colormapTable = (colormap: Colormap): Uint32Array => {
+  const cached = lutCache.get(colormap);
+  if (cached) return cached;
+
+  const stops = COLORMAP_STOPS[colormap].map(hex => [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16)));
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const t = (i / 255) * (stops.length - 1);
+    const k = Math.min(stops.length - 2, Math.floor(t));
+    const f = t - k;
+    const [r, g, b] = [0, 1, 2].map(c => Math.round(stops[k][c] + (stops[k + 1][c] - stops[k][c]) * f));
+    table[i] = (255 << 24) | (b << 16) | (g << 8) | r;
+  }
+  lutCache.set(colormap, table);
+  return table;
+};
+
+// CSS gradient of a colormap, for legends
+export const colormapGradient = (colormap: Colormap) =>
+  `linear-gradient(to right, ${COLORMAP_STOPS[colormap].join(', ')})`;
+
+/**
+ * Stream function by integrating the velocity: along the top row from -uy, then down
+ * each column from ux. Zero is put at the middle of the inlet so the value of a
+ * streamline says how much flow passes between it and the tunnel axis.
+ */
+const streamFunction = (ux: Float32Array, uy: Float32Array, cols: number, rows: number, out: Float32Array) => {
+  out[0] = 0;
+  for (let x = 1; x < cols; x++) out[x] = out[x - 1] - 0.5 * (uy[x - 1] + uy[x]);
+  for (let y = 1; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      out[i] = out[i - cols] + 0.5 * (ux[i - cols] + ux[i]);
+    }
+  }
+  const reference = out[Math.floor(rows / 2) * cols];
+  for (let i = 0; i < out.length; i++) out[i] -= reference;
+};
+
+/**
+ * Freestream density for pressure coefficients: the mean over the open cells of the
+ * upstream edge. The outlet holds density 1, and the drag of the body raises the inlet
+ * above it.
+ */
+export const upstreamDensity = (density: Float32Array, mask: Uint8Array, cols: number, rows: number) => {
+  let upstream = 0, count = 0;
+  for (let y = 0; y < rows; y++) {
+    if (mask[y * cols] === FLUID_CELL) { upstream += density[y * cols]; count++; }
+  }
+  return count > 0 ? upstream / count : 1;
+};
+
+const pressureCoefficient = (
+  density: Float32Array,
+  mask: Uint8Array,
+  cols: number,
+  rows: number,
+  inletVelocity: number,
+  out: Float32Array
+) => {
+  const reference = upstreamDensity(density, mask, cols, rows);
+  const q = 0.5 * inletVelocity * inletVelocity;
+  for (let i = 0; i < cols * rows; i++) out[i] = q > 0 ? (CS2 * (density[i] - reference)) / q : 0;
+};
+
+/**
+ * One scalar field of the flow in physical units, written into `out`. The grid's y
+ * points down; uy, vorticity, the stream function and the Reynolds stress are returned
+ * with y up, so positive vorticity is anticlockwise as seen on screen. The averaged
+ * modes read `statistics` and are zero until averaging has started.
+ */
+export const deriveField = (
+  mode: FlowFieldMode,
+  fields: { density: Float32Array; ux: Float32Array; uy: Float32Array },
+  statistics: LbmStatisticsFields | null,
+  mask: Uint8Array,
+  cols: number,
+  rows: number,
+  scaling: FieldScaling,
+  out: Float32Array
+) => {
+  const { density, ux, uy } = fields;
+  const velocity = scaling.inletVelocity > 0 ? scaling.speed / scaling.inletVelocity : 0; // m/s per lattice unit
+  const size = cols * rows;
+
+  switch (mode) {
+    case 'speed':
+      for (let i = 0; i < size; i++) out[i] = Math.sqrt(ux[i] * ux[i] + uy[i] * uy[i]) * velocity;
+      break;
+    case 'ux':
+      for (let i = 0; i < size; i++) out[i] = ux[i] * velocity;
+      break;
+    case 'uy':
+      for (let i = 0; i < size; i++) out[i] = -uy[i] * velocity;
+      break;
+    case 'pressure':
+      pressureCoefficient(density, mask, cols, rows, scaling.inletVelocity, out);
+      break;
+    case 'vorticity': {
+      // Central differences, one-sided at the domain edges; 1/step converted to 1/s
+      const perSecond = scaling.stepTime > 0 ? 1 / scaling.stepTime : 0;
+      for (let y = 0; y < rows; y++) {
+        const up = y > 0 ? y - 1 : y;
+        const down = y < rows - 1 ? y + 1 : y;
+        for (let x = 0; x < cols; x++) {
+          const left = x > 0 ? x - 1 : x;
+          const right = x < cols - 1 ? x + 1 : x;
+          const duy = (uy[y * cols + right] - uy[y * cols + left]) / (right - left);
+          const dux = (ux[down * cols + x] - ux[up * cols + x]) / (down - up);
+          // With y up: dv/dx - du/dy = -duy/dx + dux/dy(grid)
+          out[y * cols + x] = (dux - duy) * perSecond;
+        }
+      }
+      break;
+    }
+    case 'streamfunction': {
+      streamFunction(ux, uy, cols, rows, out);
+      const perCell = velocity * scaling.cellSize; // m^2/s per lattice unit
+      for (let i = 0; i < size; i++) out[i] = -out[i] * perCell;
+      break;
+    }
+    default: {
+      if (!statistics) {
+        out.fill(0);
+        break;
+      }
+      const v2 = velocity * velocity;
+      if (mode === 'meanSpeed') {
+        for (let i = 0; i < size; i++) out[i] = Math.hypot(statistics.ux[i], statistics.uy[i]) * velocity;
+      } else if (mode === 'meanPressure') {
+        pressureCoefficient(statistics.density, mask, cols, rows, scaling.inletVelocity, out);
+      } else if (mode === 'rmsUx') {
+        for (let i = 0; i < size; i++) out[i] = Math.sqrt(statistics.uu[i]) * velocity;
+      } else if (mode === 'rmsUy') {
+        for (let i = 0; i < size; i++) out[i] = Math.sqrt(statistics.vv[i]) * velocity;
+      } else if (mode === 'reynoldsStress') {
+        for (let i = 0; i < size; i++) out[i] = -statistics.uv[i] * v2;
+      } else {
+        for (let i = 0; i < size; i++) out[i] = 0.5 * (statistics.uu[i] + statistics.vv[i]) * v2;
+      }
+    }
+  }
+};
+
+/**
+ * Colour range spanning the fluid cells, clipped at the 1st and 99th percentiles of a
+ * sample so the spikes at sharp edges don't wash the rest of the field out.
+ */
+export const autoRange = (mode: FlowFieldMode, values: Float32Array, mask: Uint8Array): FieldRange => {
+  const sample: number[] = [];
+  for (let i = 0; i < values.length; i += RANGE_SAMPLE_STRIDE) {
+    if (mask[i] === FLUID_CELL && Number.isFinite(values[i])) sample.push(values[i]);
+  }
+  if (sample.length === 0) return { min: 0, max: 1 };
+
+  if (SIGNED[mode]) {
+    const magnitudes = sample.map(Math.abs).sort((a, b) => a - b);
+    const limit = magnitudes[Math.floor((magnitudes.length - 1) * (1 - RANGE_PERCENTILE))] || 1;
+    return { min: -limit, max: limit };
+  }
+  sample.sort((a, b) => a - b);
+  const min = sample[Math.floor((sample.length - 1) * RANGE_PERCENTILE)];
+  const max = sample[Math.floor((sample.length - 1) * (1 - RANGE_PERCENTILE))];
+  return max > min ? { min, max } : { min: min - 1, max: min + 1 };
+};
+
+/**
+ * Starting point for a fixed range, from the freestream speed V and chord c.
+ */
+export const defaultRange = (mode: FlowFieldMode, speed: number, referenceLength: number): FieldRange => {
+  switch (mode) {
+    case 'speed': return { min: 0, max: 1.5 * speed };
+    case 'ux': return { min: -0.5 * speed, max: 1.5 * speed };
+    case 'uy': return { min: -0.75 * speed, max: 0.75 * speed };
+    case 'pressure': return { min: -3, max: 1 };
+    case 'vorticity': {
+      const limit = referenceLength > 0 ? (20 * speed) / referenceLength : 1;
+      return { min: -limit, max: limit };
+    }
+    case 'streamfunction': return { min: -speed * referenceLength, max: speed * referenceLength };
+    case 'meanSpeed': return { min: 0, max: 1.5 * speed };
+    case 'meanPressure': return { min: -3, max: 1 };
+    case 'rmsUx':
+    case 'rmsUy': return { min: 0, max: 0.3 * speed };
+    case 'reynoldsStress': return { min: -0.02 * speed * speed, max: 0.02 * speed * speed };
+    case 'tke': return { min: 0, max: 0.05 * speed * speed };
+  }
+};
+
+/**
+ * Iso-lines of `values` at `levels` by marching squares over the cell centres. Returns
+ * segments as flat [x0, y0, x1, y1, ...] in cell units (cell i's centre at i + 0.5).
+ * Squares touching a solid cell are skipped, so lines stop at the body surface.
+ */
+export const contourSegments = (
+  values: Float32Array,
+  mask: Uint8Array,
+  cols: number,
+  rows: number,
+  levels: number[]
+): number[] => {
+  const segments: number[] = [];
+  const crossing = (a: number, b: number, level: number) => (level - a) / (b - a);
+
+  for (let y = 0; y < rows - 1; y++) {
+    for (let x = 0; x < cols - 1; x++) {
+      const i = y * cols + x;
+      if (mask[i] || mask[i + 1] || mask[i + cols] || mask[i + cols + 1]) continue;
+      // Corners anticlockwise from the top-left: a (x, y), b (x+1, y), c (x+1, y+1), d (x, y+1)
+      const a = values[i], b = values[i + 1], c = values[i + cols + 1], d = values[i + cols];
+      const low = Math.min(a, b, c, d), high = Math.max(a, b, c, d);
+      const cx = x + 0.5, cy = y + 0.5;
+
+      for (const level of levels) {
+        if (level <= low || level > high) continue;
+        // Edge crossings in order top, right, bottom, left
+        const points: number[] = [];
+        if ((a < level) !== (b < level)) points.push(cx + crossing(a, b, level), cy);
+        if ((b < level) !== (c < level)) points.push(cx + 1, cy + crossing(b, c, level));
+        if ((c < level) !== (d < level)) points.push(cx + 1 - crossing(c, d, level), cy + 1);
+        if ((d < level) !== (a < level)) points.push(cx, cy + 1 - crossing(d, a, level));
+        // Two crossings make one segment; the saddle case (four) is split by pairing in order
+        for (let k = 0; k + 3 < points.length; k += 4) {
+          segments.push(points[k], points[k + 1], points[k + 2], points[k + 3]);
+        }
+      }
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,112 @@
+import { FLUID_CELL } from './lbm';
+
+// Streamline step in cells
+const STREAMLINE_STEP = 0.5;
+// Streamline steps each way from the seed
+const STREAMLINE_MAX_STEPS = 1500;
+// Below this lattice speed the streamline has reached a stagnation point
+const STAGNATION_SPEED = 1e-6;
+
+// A velocity field on the lattice; positions are in cells, cell i spanning [i, i + 1)
+export interface VelocityGrid {
+  ux: Float32Array;
+  uy: Float32Array;
+  mask: Uint8Array; // FLUID_CELL or solid
+  cols: number;
+  rows: number;
+}
+
+export interface TracerPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Velocity at a point, interpolated bilinearly between the four surrounding cell
+ * centres. Solid cells count as at rest, so the interpolated flow goes to zero at the
+ * body surface. Returns null outside the domain or inside a solid cell.
+ */
+export const sampleVelocity = (grid: VelocityGrid, x: number, y: number): TracerPoint | null => {
+  const { ux, uy, mask, cols, rows } = grid;
+  if (!(x >= 0 && x < cols && y >= 0 && y < rows)) return null;
+  if (mask[Math.floor(y) * cols + Math.floor(x)] !== FLUID_CELL) return null;
+
+  // Lower-left cell centre of the interpolation square, clamped at the edges
+  const fx = Math.min(Math.max(x - 0.5, 0), cols - 1.001);
+  const fy = Math.min(Math.max(y - 0.5, 0), rows - 1.001);
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  const tx = fx - x0, ty = fy - y0;
+
+  let vx = 0, vy = 0;
+  const corner = (i: number, weight: number) => {
+    if (mask[i] !== FLUID_CELL) return;
+    vx += ux[i] * weight;
+    vy += uy[i] * weight;
+  };
+  const i00 = y0 * cols + x0;
+  corner(i00, (1 - tx) * (1 - ty));
+  corner(i00 + 1, tx * (1 - ty));
+  corner(i00 + cols, (1 - tx) * ty);
+  corner(i00 + cols + 1, tx * ty);
+  return { x: vx, y: vy };
+};
+
+/**
+ * One classical Runge-Kutta step of dx/dt = v(x) over `dt`, with `velocity` returning
+ * null where the path leaves the fluid. Returns null when any stage does.
+ */
+const rk4 = (
+  velocity: (x: number, y: number) => TracerPoint | null,
+  p: TracerPoint,
+  dt: number
+): TracerPoint | null => {
+  const k1 = velocity(p.x, p.y);
+  if (!k1) return null;
+  const k2 = velocity(p.x + 0.5 * dt * k1.x, p.y + 0.5 * dt * k1.y);
+  if (!k2) return null;
+  const k3 = velocity(p.x + 0.5 * dt * k2.x, p.y + 0.5 * dt * k2.y);
+  if (!k3) return null;
+  const k4 = velocity(p.x + dt * k3.x, p.y + dt * k3.y);
+  if (!k4) return null;
+  return {
+    x: p.x + (dt / 6) * (k1.x + 2 * k2.x + 2 * k3.x + k4.x),
+    y: p.y + (dt / 6) * (k1.y + 2 * k2.y + 2 * k3.y + k4.y)
+  };
+};
+
+/**
+ * Moves a particle with the flow for `steps` lattice steps (velocities are in cells per
+ * step). Returns null once it leaves the domain or runs into a body.
+ */
+export const advectParticle = (grid: VelocityGrid, p: TracerPoint, steps: number): TracerPoint | null =>
+  rk4((x, y) => sampleVelocity(grid, x, y), p, steps);
+
+/**
+ * Instantaneous streamline through `seed`: the field is integrated by arc length, both
+ * upstream and downstream, until the line leaves the fluid or stalls at a stagnation
+ * point. Points run from the upstream end to the downstream end.
+ */
+export const traceStreamline = (grid: VelocityGrid, seed: TracerPoint): TracerPoint[] => {
+  const direction = (sign: number) => (x: number, y: number): TracerPoint | null => {
+    const v = sampleVelocity(grid, x, y);
+    if (!v) return null;
+    const speed = Math.hypot(v.x, v.y);
+    if (speed < STAGNATION_SPEED) return null;
+    return { x: (sign * v.x) / speed, y: (sign * v.y) / speed };
+  };
+
+  const march = (sign: number): TracerPoint[] => {
+    const points: TracerPoint[] = [];
+    const field = direction(sign);
+    let p: TracerPoint | null = seed;
+    for (let k = 0; k < STREAMLINE_MAX_STEPS; k++) {
+      p = rk4(field, p, STREAMLINE_STEP);
+      if (!p) break;
+      points.push(p);
+    }
+    return points;
+  };
+
+  if (!sampleVelocity(grid, seed.x, seed.y)) return [];
+  return [...march(-1).reverse(), seed, ...march(1)];
+};
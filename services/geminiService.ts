@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult, PhysicsResult } from "../types";
+import { AnalysisResult, PhysicsResult, WingControls } from "../types";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -9,7 +9,8 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 export const explainSimulation = async (
   physicsData: PhysicsResult,
   shapeType: string,
-  alpha: number
+  alpha: number,
+  controls: WingControls | null = null
 ): Promise<Pick<AnalysisResult, 'explanation' | 'recommendations'>> => {
   try {
     const prompt = `
@@ -20,12 +21,26 @@ export const explainSimulation = async (
       - Lift Coefficient (Cl): ${physicsData.liftCoefficient.toFixed(3)}
       - Drag Coefficient (Cd): ${physicsData.dragCoefficient.toFixed(3)}
       - Reynolds Number: ${physicsData.reynoldsNumber.toExponential(2)}
-      - Angle of Attack: ${alpha} degrees
+      - Upper-surface transition / separation (x/c): ${physicsData.boundaryLayer.upper.transition?.toFixed(2) ?? 'laminar'} / ${physicsData.boundaryLayer.upper.separation?.toFixed(2) ?? 'attached'}
+      - Lower-surface transition / separation (x/c): ${physicsData.boundaryLayer.lower.transition?.toFixed(2) ?? 'laminar'} / ${physicsData.boundaryLayer.lower.separation?.toFixed(2) ?? 'attached'}
+      - Angle of Attack: ${alpha} degrees${controls
+        ? `
+      - Pilot inputs: brake ${Math.round(controls.brake * 100)}% (trailing edge pulled down), speed bar ${Math.round(controls.speedBar * 100)}% (nose down, more reflex)`
+        : ''}
+      - Bodies in the flow: ${physicsData.bodies.length}${physicsData.bodies.length > 1
+        ? ` (per body Cl/Cd: ${physicsData.bodies.map(b => `${b.liftCoefficient.toFixed(3)}/${b.dragCoefficient.toFixed(3)}`).join(', ')})`
+        : ''}${physicsData.ramPressure
+        ? `
+      - Open-cell canopy: internal Cp ${physicsData.ramPressure.internalCp.toFixed(2)}, highest Cp on the upper skin over the cell ${physicsData.ramPressure.peakCp.cp.toFixed(2)} at x/c ${physicsData.ramPressure.peakCp.x.toFixed(3)} (collapse margin ${physicsData.ramPressure.collapseMargin.toFixed(2)}, negative means a frontal collapse)`
+        : ''}${physicsData.axisymmetric
+        ? `
+      - Body of revolution in axial flow (incidence not modelled; Cd is on the frontal area): drag area CdA ${physicsData.axisymmetric.dragArea.toFixed(4)} m^2 (friction ${physicsData.axisymmetric.frictionDragArea.toFixed(4)}, pressure ${physicsData.axisymmetric.pressureDragArea.toFixed(4)}), frontal area ${physicsData.axisymmetric.frontalArea.toFixed(3)} m^2, length ${physicsData.axisymmetric.length.toFixed(2)} m, diameter ${physicsData.axisymmetric.maxDiameter.toFixed(2)} m`
+        : ''}
 
       Task:
       1. Explain the flow regime (Laminar/Turbulent) based on the Reynolds number.
       2. Analyze the efficiency (L/D ratio).
-      3. Identify if the object is likely in a stall condition based on the Cl and Angle.
+      3. Identify if the object is likely in a stall condition based on the separation points, Cl and Angle.
       4. Provide engineering recommendations to improve performance.
 
       Keep the explanation technical but concise (max 3 sentences for explanation).
@@ -0,0 +1,337 @@
+import { Point } from '../types';
+
+export interface ChordLine {
+  leadingEdge: Point;
+  trailingEdge: Point;
+  length: number;
+}
+
+// Vertices this close (fraction of the streamwise extent) to the most downstream one
+// belong to the trailing edge, so a blunt base is measured from its midpoint.
+const TE_TOLERANCE = 0.005;
+
+/**
+ * Detects the chord line of a closed contour in its body frame (freestream along +x).
+ * The trailing edge is the most downstream point (midpoint of a blunt base) and the
+ * leading edge is the vertex furthest from it. For bluff bodies this gives the diameter.
+ */
+export const findChordLine = (points: Point[]): ChordLine => {
+  if (points.length === 0) {
+    return { leadingEdge: { x: 0, y: 0 }, trailingEdge: { x: 0, y: 0 }, length: 0 };
+  }
+
+  let minX = Infinity, maxX = -Infinity;
+  points.forEach(p => {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+  });
+  const tolerance = TE_TOLERANCE * (maxX - minX);
+
+  const base = points.filter(p => p.x >= maxX - tolerance);
+  const trailingEdge = {
+    x: base.reduce((s, p) => s + p.x, 0) / base.length,
+    y: base.reduce((s, p) => s + p.y, 0) / base.length
+  };
+
+  let leadingEdge = points[0];
+  let length = 0;
+  points.forEach(p => {
+    const d = Math.hypot(p.x - trailingEdge.x, p.y - trailingEdge.y);
+    if (d > length) {
+      length = d;
+      leadingEdge = p;
+    }
+  });
+
+  return { leadingEdge, trailingEdge, length };
+};
+
+/**
+ * Rotates points about a centre. A positive angle raises the nose of a body facing -x
+ * on screen (y down), which is the same as a positive angle of attack in a y-up frame.
+ */
+export const rotatePoints = (points: Point[], angleDeg: number, center: Point): Point[] => {
+  const rad = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return points.map(p => {
+    const dx = p.x - center.x;
+    const dy = p.y - center.y;
+    return {
+      x: center.x + dx * cos - dy * sin,
+      y: center.y + dx * sin + dy * cos
+    };
+  });
+};
+
+/**
+ * Converts canvas polygons (pixels, y down) to the solver frame: metres, y up, leading
+ * edge of the first (main) body at the origin, scaled so its detected chord equals
+ * `referenceLength`. Further bodies keep their position and size relative to it.
+ */
+export const toPhysicalFrame = (pixelBodies: Point[][], referenceLength: number): Point[][] => {
+  const flipped = pixelBodies.map(body => body.map(p => ({ x: p.x, y: -p.y })));
+  if (flipped.length === 0) return flipped;
+  const { leadingEdge, length } = findChordLine(flipped[0]);
+  if (length === 0) return flipped;
+
+  const scale = referenceLength / length;
+  return flipped.map(body => body.map(p => ({
+    x: (p.x - leadingEdge.x) * scale,
+    y: (p.y - leadingEdge.y) * scale
+  })));
+};
+
+// Points closer than this fraction of the contour's largest extent are duplicates
+const DUPLICATE_TOLERANCE = 1e-4;
+// A vertex off the line through its neighbours by less than this fraction of their
+// distance is near-collinear
+const COLLINEAR_TOLERANCE = 1e-4;
+// Turning angle above which a vertex is a corner that repaneling keeps in place. The
+// net turn over the neighbouring vertices must agree, so pixel jitter does not count.
+const CORNER_ANGLE = 45 * (Math.PI / 180);
+const CORNER_WINDOW = 2;
+
+export interface GeometryStep {
+  step: string;
+  change: string | null; // What the step did, null when the contour was left as it was
+}
+
+export interface PreparedContour {
+  points: Point[]; // Closed implicitly (no repeated end point), clockwise as drawn
+  steps: GeometryStep[];
+  intersections: Point[]; // Where the contour crosses itself, empty when valid
+}
+
+export interface PreprocessOptions {
+  panelCount?: number; // Target number of panels, 0 keeps the cleaned vertices
+  yDown?: boolean; // Canvas coordinates (pixels, y down) rather than the solver frame
+}
+
+// Shoelace area: positive means counter-clockwise with y up
+const signedArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i], b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+const extentOf = (points: Point[]): number => {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  });
+  return Math.max(maxX - minX, maxY - minY, 1e-12);
+};
+
+// Signed direction change at vertex i of a closed contour, 0 on a straight line
+const turningAngle = (points: Point[], i: number): number => {
+  const n = points.length;
+  const a = points[(i - 1 + n) % n], b = points[i], c = points[(i + 1) % n];
+  const turn = Math.atan2(c.y - b.y, c.x - b.x) - Math.atan2(b.y - a.y, b.x - a.x);
+  return Math.atan2(Math.sin(turn), Math.cos(turn));
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Crossing points between non-adjacent edges of a closed contour. O(n^2), which is
+ * fine for hand-drawn strokes of a few hundred points.
+ */
+export const findSelfIntersections = (points: Point[]): Point[] => {
+  const n = points.length;
+  const crossings: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const a = points[i], b = points[(i + 1) % n];
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue; // Shares the closing vertex
+      const c = points[j], d = points[(j + 1) % n];
+      const denom = (b.x - a.x) * (d.y - c.y) - (b.y - a.y) * (d.x - c.x);
+      if (Math.abs(denom) < 1e-12) continue;
+      const t = ((c.x - a.x) * (d.y - c.y) - (c.y - a.y) * (d.x - c.x)) / denom;
+      const u = ((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / denom;
+      if (t > 0 && t < 1 && u > 0 && u < 1) {
+        crossings.push({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+      }
+    }
+  }
+  return crossings;
+};
+
+// Point at fraction t of the way from p1 to p2 on the centripetal Catmull-Rom curve
+// through p0..p3 (Barry-Goldman); a repeated end point makes that end one-sided
+const catmullRom = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
+  const knot = (a: Point, b: Point) => Math.max(Math.sqrt(Math.hypot(b.x - a.x, b.y - a.y)), 1e-9);
+  const t1 = knot(p0, p1);
+  const t2 = t1 + knot(p1, p2);
+  const t3 = t2 + knot(p2, p3);
+  const u = t1 + t * (t2 - t1);
+  const lerp = (a: Point, b: Point, ta: number, tb: number): Point => ({
+    x: ((tb - u) * a.x + (u - ta) * b.x) / (tb - ta),
+    y: ((tb - u) * a.y + (u - ta) * b.y) / (tb - ta)
+  });
+  const a1 = lerp(p0, p1, 0, t1), a2 = lerp(p1, p2, t1, t2), a3 = lerp(p2, p3, t2, t3);
+  return lerp(lerp(a1, a2, 0, t2), lerp(a2, a3, t1, t3), t1, t2);
+};
+
+/**
+ * Redistributes the contour to about `panelCount` panels. The leading edge, the trailing
+ * edge and any corners stay where they are; the stretches between them are resampled
+ * by arc length with cosine spacing, so panels cluster towards each of those points.
+ * New points lie on a smooth curve through the vertices rather than on the straight
+ * edges, whose kinks would otherwise show as spikes in the surface velocity once the
+ * panels are finer than the vertices. Only the corners stay sharp.
+ */
+const repanel = (points: Point[], panelCount: number): { points: Point[]; corners: number } => {
+  const n = points.length;
+  const chord = findChordLine(points);
+  const le = points.indexOf(chord.leadingEdge);
+  let te = 0;
+  points.forEach((p, i) => {
+    const best = points[te];
+    if (Math.hypot(p.x - chord.trailingEdge.x, p.y - chord.trailingEdge.y) <
+        Math.hypot(best.x - chord.trailingEdge.x, best.y - chord.trailingEdge.y)) te = i;
+  });
+
+  const breaks = new Set<number>([le, te]);
+  const turns = points.map((_, i) => turningAngle(points, i));
+  const corners = new Set<number>();
+  turns.forEach((turn, i) => {
+    let net = 0;
+    for (let k = -CORNER_WINDOW; k <= CORNER_WINDOW; k++) net += turns[(i + k + n) % n];
+    if (Math.abs(turn) > CORNER_ANGLE && Math.abs(net) > CORNER_ANGLE) {
+      breaks.add(i);
+      corners.add(i);
+    }
+  });
+  const breakList = [...breaks].sort((a, b) => a - b);
+
+  const edgeLength = (i: number) => {
+    const a = points[i], b = points[(i + 1) % n];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  };
+  let perimeter = 0;
+  for (let i = 0; i < n; i++) perimeter += edgeLength(i);
+
+  const result: Point[] = [];
+  breakList.forEach((start, k) => {
+    const end = breakList[(k + 1) % breakList.length];
+    // Vertices of this stretch, start to end, wrapping round the closing edge
+    const stretch: number[] = [start];
+    for (let i = (start + 1) % n; i !== end; i = (i + 1) % n) stretch.push(i);
+    stretch.push(end);
+
+    const cumulative = [0];
+    for (let m = 1; m < stretch.length; m++) {
+      cumulative.push(cumulative[m - 1] + edgeLength(stretch[m - 1]));
+    }
+    const length = cumulative[cumulative.length - 1];
+    const count = Math.max(1, Math.round((panelCount * length) / perimeter));
+
+    // Cosine spacing along the stretch; its end point starts the next stretch
+    let m = 1;
+    for (let j = 0; j < count; j++) {
+      const s = (length * (1 - Math.cos((Math.PI * j) / count))) / 2;
+      while (m < cumulative.length - 1 && cumulative[m] < s) m++;
+      const a = stretch[m - 1], b = stretch[m];
+      const span = cumulative[m] - cumulative[m - 1];
+      const t = span > 0 ? (s - cumulative[m - 1]) / span : 0;
+      const before = corners.has(a) ? a : (a - 1 + n) % n;
+      const after = corners.has(b) ? b : (b + 1) % n;
+      result.push(catmullRom(points[before], points[a], points[b], points[after], t));
+    }
+  });
+
+  return { points: result, corners: corners.size };
+};
+
+/**
+ * Cleans a contour before it reaches the panel solver or the LBM rasteriser: closes the
+ * loop, drops duplicate and near-collinear points, makes it clockwise as drawn, checks
+ * it for self-intersections and repanels it with cosine clustering. Every step records
+ * what it changed so the user can see what happened to the shape.
+ */
+export const preprocessGeometry = (input: Point[], options: PreprocessOptions = {}): PreparedContour => {
+  const { panelCount = 0, yDown = false } = options;
+  const steps: GeometryStep[] = [];
+  let points = input.map(p => ({ x: p.x, y: p.y }));
+  if (points.length < 3) {
+    return { points, steps: [{ step: 'input', change: `only ${points.length} points, not a closed shape` }], intersections: [] };
+  }
+  const extent = extentOf(points);
+  const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+  // 1. Closure: the loop is closed implicitly, from the last point back to the first
+  const first = points[0];
+  const gap = dist(first, points[points.length - 1]);
+  if (gap <= DUPLICATE_TOLERANCE * extent) {
+    points.pop();
+    steps.push({ step: 'close loop', change: 'dropped the repeated closing point' });
+  } else {
+    steps.push({ step: 'close loop', change: `joined the open ends (gap ${((100 * gap) / extent).toFixed(1)}% of the size)` });
+  }
+
+  // 2. Duplicate points
+  const unique: Point[] = [];
+  points.forEach(p => {
+    if (unique.length === 0 || dist(p, unique[unique.length - 1]) > DUPLICATE_TOLERANCE * extent) unique.push(p);
+  });
+  while (unique.length > 1 && dist(unique[0], unique[unique.length - 1]) <= DUPLICATE_TOLERANCE * extent) unique.pop();
+  const duplicates = points.length - unique.length;
+  points = unique;
+  steps.push({ step: 'duplicates', change: duplicates > 0 ? `removed ${plural(duplicates, 'duplicate point')}` : null });
+
+  // 3. Orientation: clockwise as drawn, i.e. clockwise in the y-up solver frame and on
+  // the y-down canvas alike (the shoelace sign flips with the y axis)
+  const clockwise = yDown ? signedArea(points) > 0 : signedArea(points) < 0;
+  if (!clockwise) points.reverse();
+  steps.push({ step: 'orientation', change: clockwise ? null : 'reversed to clockwise' });
+
+  // 4. Near-collinear points: a vertex within tolerance of the line through its
+  // neighbours, and between them, adds nothing to the shape
+  let collinear = 0;
+  let removed = true;
+  while (removed && points.length > 3) {
+    removed = false;
+    for (let i = 0; i < points.length && points.length > 3; i++) {
+      const n = points.length;
+      const a = points[(i - 1 + n) % n], b = points[i], c = points[(i + 1) % n];
+      const ac = dist(a, c);
+      if (ac === 0) continue;
+      const offLine = Math.abs((c.x - a.x) * (b.y - a.y) - (c.y - a.y) * (b.x - a.x)) / ac;
+      const along = ((b.x - a.x) * (c.x - a.x) + (b.y - a.y) * (c.y - a.y)) / (ac * ac);
+      if (offLine <= COLLINEAR_TOLERANCE * ac && along > 0 && along < 1) {
+        points.splice(i, 1);
+        collinear++;
+        removed = true;
+        i--;
+      }
+    }
+  }
+  steps.push({ step: 'collinear points', change: collinear > 0 ? `removed ${plural(collinear, 'near-collinear point')}` : null });
+
+  // 5. Validity: a crossing contour has no well-defined inside
+  const intersections = findSelfIntersections(points);
+  steps.push({
+    step: 'self-intersection',
+    change: intersections.length > 0 ? `${plural(intersections.length, 'crossing')} found, results are unreliable` : null
+  });
+
+  // 6. Repaneling
+  if (panelCount >= 3) {
+    const before = points.length;
+    const repaneled = repanel(points, panelCount);
+    points = repaneled.points;
+    steps.push({
+      step: 'repanel',
+      change: `${before} → ${points.length} panels, cosine-clustered at LE/TE${repaneled.corners > 0 ? `, ${plural(repaneled.corners, 'corner')} kept` : ''}`
+    });
+  }
+
+  return { points, steps, intersections };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { analyseForces, ForceScaling } from './lbmForces';
+
+const SCALING: ForceScaling = {
+  chordCells: 20,
+  heightCells: 100,
+  inletVelocity: 0.1,
+  latticeViscosity: 0.03125,
+  speed: 10,
+  referenceLength: 1,
+  dynamicPressure: 60
+};
+const STEPS = 30000;
+
+// Lift history of sine waves, each an amplitude in Cl at a Strouhal number on the chord
+const liftHistory = (waves: [number, number][]) => {
+  const q = 0.5 * SCALING.inletVelocity ** 2 * SCALING.chordCells;
+  return Array.from({ length: STEPS }, (_, k) => ({
+    x: 0,
+    y: -q * waves.reduce((sum, [amplitude, strouhal]) =>
+      sum + amplitude * Math.sin((2 * Math.PI * strouhal * SCALING.inletVelocity * k) / SCALING.chordCells), 0)
+  }));
+};
+
+// First transverse acoustic mode of the tunnel, f = cs / 2H, as a Strouhal number
+const ACOUSTIC = (1 / Math.sqrt(3) / (2 * SCALING.heightCells)) * SCALING.chordCells / SCALING.inletVelocity;
+
+describe('shedding detection', () => {
+  it('reads the shedding frequency under a weaker acoustic tone', () => {
+    const result = analyseForces(liftHistory([[0.2, 0.15], [0.02, ACOUSTIC]]), SCALING);
+    expect(result?.strouhal).toBeCloseTo(0.15, 2);
+  });
+
+  it('reports no shedding when the lift carries sound or lattice noise', () => {
+    expect(analyseForces(liftHistory([[0.2, ACOUSTIC], [0.02, 0.15]]), SCALING)?.strouhal).toBeNull();
+    expect(analyseForces(liftHistory([[0.1, 32.9]]), SCALING)?.strouhal).toBeNull();
+  });
+});
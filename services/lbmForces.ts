@@ -0,0 +1,148 @@
+import { LbmForceResult, LbmForceSample } from '../types';
+import { LbmForce } from './lbm';
+import { dominantFrequency, powerSpectrum } from './lbmProbes';
+
+// Points handed to the time-series chart
+const CHART_POINTS = 200;
+// Lift oscillations below this amplitude (rms of Cl) count as steady flow
+const MIN_SHEDDING_RMS = 0.005;
+// Hysteresis of the crossing detector, in lift rms
+const CROSSING_BAND = 0.3;
+// Strouhal numbers on the reference length that count as shedding; faster lift
+// oscillations are lattice noise (LES chatter), slower ones the start-up drift
+const STROUHAL_BAND = { min: 0.05, max: 1 };
+// Lattice speed of sound
+const CS = 1 / Math.sqrt(3);
+// Spectral peaks within this fraction of a transverse acoustic mode of the tunnel
+const ACOUSTIC_TOLERANCE = 0.1;
+// The crossing period refines the spectral peak when they agree within this fraction
+const CROSS_CHECK_TOLERANCE = 0.15;
+
+// How the lattice maps onto the modelled flow
+export interface ForceScaling {
+  chordCells: number; // reference length in lattice cells
+  heightCells: number; // tunnel height in lattice cells, sets its acoustic modes
+  inletVelocity: number; // lattice units per step
+  latticeViscosity: number;
+  speed: number; // m/s, modelled airspeed
+  referenceLength: number; // m, modelled chord
+  dynamicPressure: number; // Pa
+}
+
+/**
+ * Lift and drag coefficients of a lattice force. The flow runs in +x and the grid's y
+ * points down, so lift is -Fy.
+ */
+export const forceCoefficients = (force: LbmForce, scaling: ForceScaling) => {
+  const q = 0.5 * scaling.inletVelocity * scaling.inletVelocity * scaling.chordCells;
+  return q > 0 ? { cl: -force.y / q, cd: force.x / q } : { cl: 0, cd: 0 };
+};
+
+/**
+ * Period of the lift signal in steps, from the spacing of its upward crossings of the
+ * mean. A hysteresis band keeps noise near the mean from counting as crossings.
+ */
+const sheddingPeriod = (lift: number[], mean: number, rms: number): number | null => {
+  const band = CROSSING_BAND * rms;
+  const upCrossings: number[] = [];
+  let above = lift[0] > mean;
+  lift.forEach((cl, k) => {
+    if (!above && cl > mean + band) {
+      above = true;
+      upCrossings.push(k);
+    } else if (above && cl < mean - band) {
+      above = false;
+    }
+  });
+  if (upCrossings.length < 3) return null;
+  return (upCrossings[upCrossings.length - 1] - upCrossings[0]) / (upCrossings.length - 1);
+};
+
+/**
+ * Strouhal number of the vortex shedding in the lift signal, or null when there is
+ * none. The highest peak of the lift spectrum has to fall inside STROUHAL_BAND and clear
+ * of the tunnel's transverse acoustic modes, f = n cs / 2H: a pressure wave bouncing
+ * between the edges rocks the lift as well, at a frequency set by the tunnel rather
+ * than the body. The crossing period, finer than the spectral bins, refines the peak
+ * when the two agree.
+ */
+const sheddingStrouhal = (lift: number[], mean: number, rms: number, scaling: ForceScaling): number | null => {
+  // Frequencies in cycles per lattice step
+  const toStrouhal = (frequency: number) => (frequency * scaling.chordCells) / scaling.inletVelocity;
+  const peak = dominantFrequency(powerSpectrum(Float32Array.from(lift), 1, Infinity));
+  if (peak === null) return null;
+  const strouhal = toStrouhal(peak);
+  if (strouhal < STROUHAL_BAND.min || strouhal > STROUHAL_BAND.max) return null;
+
+  if (scaling.heightCells > 0) {
+    const acoustic = toStrouhal(CS / (2 * scaling.heightCells));
+    const mode = Math.max(1, Math.round(strouhal / acoustic)) * acoustic;
+    if (Math.abs(strouhal - mode) <= ACOUSTIC_TOLERANCE * mode) return null;
+  }
+
+  const period = sheddingPeriod(lift, mean, rms);
+  if (period === null) return strouhal;
+  const crossings = toStrouhal(1 / period);
+  const resolution = toStrouhal(1 / 2 ** Math.floor(Math.log2(lift.length)));
+  return Math.abs(crossings - strouhal) <= Math.max(CROSS_CHECK_TOLERANCE * strouhal, 1.5 * resolution)
+    ? crossings
+    : strouhal;
+};
+
+/**
+ * Time-averaged coefficients and shedding frequency of a force history, one entry per
+ * lattice step since the last reset. The first half of the history is treated as the
+ * start-up transient and left out of the averages.
+ */
+export const analyseForces = (history: LbmForce[], scaling: ForceScaling): LbmForceResult | null => {
+  const forces = history.filter(f => Number.isFinite(f.x) && Number.isFinite(f.y));
+  if (forces.length < 2 || scaling.chordCells <= 0) return null;
+
+  // One lattice step in seconds, matching convective time c / V
+  const stepTime = scaling.speed > 0
+    ? (scaling.inletVelocity * scaling.referenceLength) / (scaling.chordCells * scaling.speed)
+    : 0;
+
+  const coefficients = forces.map(f => forceCoefficients(f, scaling));
+  const stride = Math.max(1, Math.ceil(coefficients.length / CHART_POINTS));
+  const samples: LbmForceSample[] = [];
+  for (let k = 0; k < coefficients.length; k += stride) {
+    samples.push({ time: k * stepTime, ...coefficients[k] });
+  }
+
+  const settled = Math.floor(forces.length / 2);
+  const window = coefficients.slice(settled);
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const meanCl = average(window.map(c => c.cl));
+  const meanCd = average(window.map(c => c.cd));
+  const latticeLift = average(forces.slice(settled).map(f => -f.y));
+  const latticeDrag = average(forces.slice(settled).map(f => f.x));
+
+  // Vortex shedding shows up as the dominant oscillation of the lift
+  const lift = window.map(c => c.cl);
+  const rms = Math.sqrt(average(lift.map(cl => (cl - meanCl) ** 2)));
+  const strouhal = rms > MIN_SHEDDING_RMS ? sheddingStrouhal(lift, meanCl, rms, scaling) : null;
+  const sheddingFrequency = strouhal !== null && scaling.referenceLength > 0
+    ? (strouhal * scaling.speed) / scaling.referenceLength
+    : null;
+
+  const latest = coefficients[coefficients.length - 1];
+  return {
+    samples,
+    steps: forces.length,
+    cl: latest.cl,
+    cd: latest.cd,
+    meanCl,
+    meanCd,
+    latticeLift,
+    latticeDrag,
+    liftPerSpan: meanCl * scaling.dynamicPressure * scaling.referenceLength,
+    dragPerSpan: meanCd * scaling.dynamicPressure * scaling.referenceLength,
+    sheddingFrequency,
+    strouhal,
+    latticeReynolds: scaling.latticeViscosity > 0
+      ? (scaling.inletVelocity * scaling.chordCells) / scaling.latticeViscosity
+      : 0,
+    internalCp: null // filled in by the tunnel, which knows the canopy cells
+  };
+};
@@ -0,0 +1,190 @@
+import { ProbeChannel, ProbeRecord, SpectrumPoint } from '../types';
+import { FieldScaling } from './flowField';
+
+// Lattice speed of sound squared
+const CS2 = 1 / 3;
+// Lattice steps each probe keeps; a power of two so the whole buffer feeds the FFT
+export const PROBE_CAPACITY = 32768;
+// Bins handed to the spectrum chart
+const SPECTRUM_POINTS = 400;
+
+/**
+ * Ring buffer of the raw lattice values at one probe cell, one entry per lattice step.
+ * Kept in lattice units so a change of the physical scaling relabels rather than
+ * invalidates the history.
+ */
+export class ProbeRecorder {
+  private readonly density = new Float32Array(PROBE_CAPACITY);
+  private readonly reference = new Float32Array(PROBE_CAPACITY);
+  private readonly ux = new Float32Array(PROBE_CAPACITY);
+  private readonly uy = new Float32Array(PROBE_CAPACITY);
+  private count = 0; // samples written since the last clear
+  private startStep = 0; // lattice step of the first of them
+
+  push(step: number, density: number, ux: number, uy: number, reference: number) {
+    if (this.count === 0) this.startStep = step;
+    const slot = this.count % PROBE_CAPACITY;
+    this.density[slot] = density;
+    this.ux[slot] = ux;
+    this.uy[slot] = uy;
+    this.reference[slot] = reference;
+    this.count++;
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  get length() {
+    return Math.min(this.count, PROBE_CAPACITY);
+  }
+
+  /**
+   * The buffered history in physical units, oldest sample first. Velocities are in m/s
+   * with y up; Cp is taken against the upstream density of the same step.
+   */
+  record(scaling: FieldScaling): Omit<ProbeRecord, 'probe' | 'position'> {
+    const n = this.length;
+    const first = this.count - n; // oldest sample still buffered
+    const velocity = scaling.inletVelocity > 0 ? scaling.speed / scaling.inletVelocity : 0;
+    const q = 0.5 * scaling.inletVelocity * scaling.inletVelocity;
+    const channels: Record<ProbeChannel, Float32Array> = {
+      ux: new Float32Array(n),
+      uy: new Float32Array(n),
+      speed: new Float32Array(n),
+      cp: new Float32Array(n)
+    };
+    for (let k = 0; k < n; k++) {
+      const slot = (first + k) % PROBE_CAPACITY;
+      const vx = this.ux[slot] * velocity;
+      const vy = -this.uy[slot] * velocity;
+      channels.ux[k] = vx;
+      channels.uy[k] = vy;
+      channels.speed[k] = Math.hypot(vx, vy);
+      channels.cp[k] = q > 0 ? (CS2 * (this.density[slot] - this.reference[slot])) / q : 0;
+    }
+    return { firstStep: this.startStep + first, sampleInterval: scaling.stepTime, channels };
+  }
+}
+
+/**
+ * In-place radix-2 FFT of (re, im); the length must be a power of two.
+ */
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wr = Math.cos(angle), wi = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k, b = a + size / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+      }
+    }
+  }
+};
+
+/**
+ * One-sided power spectral density of a uniformly sampled signal, in units^2/Hz. Uses
+ * the most recent power-of-two stretch, mean removed and Hann windowed. Bins are merged
+ * down to `points` (a few hundred for charting, Infinity keeps them all), keeping the
+ * largest value of each group so narrow peaks survive.
+ */
+export const powerSpectrum = (
+  values: Float32Array,
+  sampleInterval: number,
+  points: number = SPECTRUM_POINTS
+): SpectrumPoint[] => {
+  if (values.length < 16 || sampleInterval <= 0) return [];
+  const n = 2 ** Math.floor(Math.log2(values.length));
+  const offset = values.length - n;
+  let mean = 0;
+  for (let k = 0; k < n; k++) mean += values[offset + k];
+  mean /= n;
+
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  let windowPower = 0;
+  for (let k = 0; k < n; k++) {
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * k) / (n - 1));
+    re[k] = (values[offset + k] - mean) * hann;
+    windowPower += hann * hann;
+  }
+  fft(re, im);
+
+  const resolution = 1 / (n * sampleInterval);
+  const scale = (2 * sampleInterval) / windowPower;
+  const bins = n / 2;
+  const group = Math.max(1, Math.ceil(bins / points));
+  const spectrum: SpectrumPoint[] = [];
+  for (let start = 1; start < bins; start += group) {
+    let peak = 0, peakBin = start;
+    for (let k = start; k < Math.min(start + group, bins); k++) {
+      const power = (re[k] * re[k] + im[k] * im[k]) * scale;
+      if (power > peak) {
+        peak = power;
+        peakBin = k;
+      }
+    }
+    spectrum.push({ frequency: peakBin * resolution, power: peak });
+  }
+  return spectrum;
+};
+
+// Frequency of the highest spectral peak, or null for a flat (steady) signal
+export const dominantFrequency = (spectrum: SpectrumPoint[]): number | null => {
+  const peak = spectrum.reduce<SpectrumPoint | null>((best, point) => (!best || point.power > best.power ? point : best), null);
+  return peak && peak.power > 0 ? peak.frequency : null;
+};
+
+/**
+ * The full buffered history of every probe as CSV, one row per lattice step; probes
+ * with shorter histories leave their columns empty at the start.
+ */
+export const probesToCsv = (records: ProbeRecord[]): string => {
+  if (records.length === 0) return '';
+  const last = Math.max(...records.map(r => r.firstStep + r.channels.ux.length));
+  const first = Math.min(...records.map(r => r.firstStep));
+  const sampleInterval = records[0].sampleInterval;
+  const header = ['step', 't_s'];
+  records.forEach(r => header.push(
+    `p${r.probe.id}_ux_ms`, `p${r.probe.id}_uy_ms`, `p${r.probe.id}_speed_ms`, `p${r.probe.id}_cp`
+  ));
+
+  const lines = [
+    `# probes at ${records.map(r => `p${r.probe.id} (x/c ${r.position.x.toFixed(3)}, y/c ${r.position.y.toFixed(3)})`).join(', ')}`,
+    header.join(',')
+  ];
+  for (let step = first; step < last; step++) {
+    const row = [String(step), (step * sampleInterval).toExponential(6)];
+    records.forEach(r => {
+      const k = step - r.firstStep;
+      if (k < 0 || k >= r.channels.ux.length) {
+        row.push('', '', '', '');
+      } else {
+        row.push(
+          r.channels.ux[k].toPrecision(6), r.channels.uy[k].toPrecision(6),
+          r.channels.speed[k].toPrecision(6), r.channels.cp[k].toPrecision(6)
+        );
+      }
+    });
+    lines.push(row.join(','));
+  }
+  return lines.join('\n');
+};
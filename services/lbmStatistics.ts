@@ -0,0 +1,218 @@
+import { FLUID_CELL, LbmSolver } from './lbm';
+import { FieldScaling, upstreamDensity } from './flowField';
+
+// Lattice speed of sound squared
+const CS2 = 1 / 3;
+
+// Time-averaged fields in lattice units, row-major like the solver's
+export interface LbmStatisticsFields {
+  samples: number; // steps averaged
+  density: Float32Array; // mean density
+  ux: Float32Array; // mean velocity, grid axes (y down)
+  uy: Float32Array;
+  uu: Float32Array; // <u'u'>
+  vv: Float32Array; // <v'v'>
+  uv: Float32Array; // <u'v'>, grid axes
+}
+
+/**
+ * Running sums of the flow at every cell, from which the mean and the velocity
+ * covariances follow. Steps are discarded until the warm-up has passed, so the start-up
+ * transient does not bias the averages.
+ */
+export class FlowStatistics {
+  private readonly density: Float64Array;
+  private readonly ux: Float64Array;
+  private readonly uy: Float64Array;
+  private readonly uu: Float64Array;
+  private readonly vv: Float64Array;
+  private readonly uv: Float64Array;
+  private samples = 0;
+  private skip = 0; // warm-up steps still to discard
+
+  constructor(size: number) {
+    this.density = new Float64Array(size);
+    this.ux = new Float64Array(size);
+    this.uy = new Float64Array(size);
+    this.uu = new Float64Array(size);
+    this.vv = new Float64Array(size);
+    this.uv = new Float64Array(size);
+  }
+
+  get sampleCount(): number {
+    return this.samples;
+  }
+
+  get warmupRemaining(): number {
+    return this.skip;
+  }
+
+  // Starts a new averaging window after `warmup` further steps
+  clear(warmup: number) {
+    [this.density, this.ux, this.uy, this.uu, this.vv, this.uv].forEach(sum => sum.fill(0));
+    this.samples = 0;
+    this.skip = Math.max(0, Math.round(warmup));
+  }
+
+  accumulate(solver: LbmSolver) {
+    if (this.skip > 0) {
+      this.skip--;
+      return;
+    }
+    const { density, ux, uy } = solver;
+    for (let i = 0; i < density.length; i++) {
+      const u = ux[i], v = uy[i];
+      this.density[i] += density[i];
+      this.ux[i] += u;
+      this.uy[i] += v;
+      this.uu[i] += u * u;
+      this.vv[i] += v * v;
+      this.uv[i] += u * v;
+    }
+    this.samples++;
+  }
+
+  /**
+   * Means and covariances of the current window, or null before the first sample.
+   * Covariances come from the raw second moments, <u'u'> = <uu> - <u><u>; the sums are
+   * kept in double precision so the difference stays accurate over long windows.
+   */
+  fields(): LbmStatisticsFields | null {
+    const n = this.samples;
+    if (n === 0) return null;
+    const size = this.density.length;
+    const result: LbmStatisticsFields = {
+      samples: n,
+      density: new Float32Array(size),
+      ux: new Float32Array(size),
+      uy: new Float32Array(size),
+      uu: new Float32Array(size),
+      vv: new Float32Array(size),
+      uv: new Float32Array(size)
+    };
+    for (let i = 0; i < size; i++) {
+      const u = this.ux[i] / n, v = this.uy[i] / n;
+      result.density[i] = this.density[i] / n;
+      result.ux[i] = u;
+      result.uy[i] = v;
+      result.uu[i] = Math.max(0, this.uu[i] / n - u * u);
+      result.vv[i] = Math.max(0, this.vv[i] / n - v * v);
+      result.uv[i] = this.uv[i] / n - u * v;
+    }
+    return result;
+  }
+}
+
+export interface WakeSurvey {
+  cd: number;
+  profile: { y: number; velocity: number }[]; // cell row and mean u over the inflow speed
+}
+
+/**
+ * Drag from the momentum balance of the mean flow in a box from the inlet to a survey
+ * column behind the body: D = ∫(p + ρu² + ρ<u'u'>) dy at the inlet minus the same at the
+ * survey station, less the x-momentum carried out through the top and bottom of the box,
+ * ρ(uv + <u'v'>) - ρν(∂u/∂y + ∂v/∂x). Those sides run one row inside the outermost rows
+ * open at both ends, clear of the edge conditions. Velocity edges hold the flow at the
+ * freestream while blockage speeds it up beside the body, and the shear between the two
+ * is what the sides take out; at no-slip walls it is their skin friction. Normal viscous
+ * stress at the ends is neglected. A station upstream of the body reads close to zero.
+ */
+export const wakeSurvey = (
+  fields: LbmStatisticsFields,
+  mask: Uint8Array,
+  cols: number,
+  rows: number,
+  station: number,
+  inletVelocity: number,
+  viscosity: number, // lattice kinematic viscosity
+  chordCells: number
+): WakeSurvey | null => {
+  const inlet = 1;
+  if (station <= inlet || station >= cols - 1 || inletVelocity <= 0 || chordCells <= 0) return null;
+
+  const profile: WakeSurvey['profile'] = [];
+  const open: number[] = [];
+  for (let y = 0; y < rows; y++) {
+    const b = y * cols + station;
+    if (mask[y * cols + inlet] !== FLUID_CELL || mask[b] !== FLUID_CELL) continue;
+    open.push(y);
+    profile.push({ y, velocity: fields.ux[b] / inletVelocity });
+  }
+  if (open.length < 3) return null;
+  const top = open[0] + 1;
+  const bottom = open[open.length - 1] - 1;
+
+  // The box's sides pass through cell centres, so the end cells count half (trapezoid)
+  const flux = (i: number) => {
+    const rho = fields.density[i], u = fields.ux[i];
+    return CS2 * rho + rho * (u * u + fields.uu[i]);
+  };
+  let drag = 0;
+  open.forEach(y => {
+    if (y < top || y > bottom) return;
+    const weight = y === top || y === bottom ? 0.5 : 1;
+    drag += weight * (flux(y * cols + inlet) - flux(y * cols + station));
+  });
+
+  // x-momentum flux along a side row in grid axes (y down): it leaves through the
+  // bottom and enters at the top
+  const shear = (y: number) => {
+    const { density, ux, uy, uv } = fields;
+    let sum = 0;
+    for (let x = inlet; x <= station; x++) {
+      const i = y * cols + x;
+      if (mask[i] !== FLUID_CELL) continue;
+      const strain = (ux[i + cols] - ux[i - cols]) / 2 + (uy[i + 1] - uy[i - 1]) / 2;
+      const weight = x === inlet || x === station ? 0.5 : 1;
+      sum += weight * density[i] * (ux[i] * uy[i] + uv[i] - viscosity * strain);
+    }
+    return sum;
+  };
+  drag += shear(top) - shear(bottom);
+  return { cd: drag / (0.5 * inletVelocity * inletVelocity * chordCells), profile };
+};
+
+/**
+ * The averaged fields as CSV, one row per fluid cell, in physical units. Positions are
+ * in chords from the tunnel centre, x downstream and y up; velocities and stresses use
+ * y up as well.
+ */
+export const statisticsToCsv = (
+  fields: LbmStatisticsFields,
+  mask: Uint8Array,
+  cols: number,
+  rows: number,
+  scaling: FieldScaling,
+  chordCells: number
+): string => {
+  const velocity = scaling.inletVelocity > 0 ? scaling.speed / scaling.inletVelocity : 0;
+  const q = 0.5 * scaling.inletVelocity * scaling.inletVelocity;
+  const chord = chordCells > 0 ? chordCells : 1;
+  const reference = upstreamDensity(fields.density, mask, cols, rows);
+
+  const lines = [
+    `# ${fields.samples} lattice steps averaged, ${(fields.samples * scaling.stepTime).toFixed(4)} s`,
+    'x_c,y_c,u_ms,v_ms,cp,uu_m2s2,vv_m2s2,uv_m2s2,k_m2s2'
+  ];
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      if (mask[i] !== FLUID_CELL) continue;
+      const uu = fields.uu[i] * velocity * velocity;
+      const vv = fields.vv[i] * velocity * velocity;
+      lines.push([
+        ((x + 0.5 - cols / 2) / chord).toFixed(4),
+        ((rows / 2 - y - 0.5) / chord).toFixed(4),
+        (fields.ux[i] * velocity).toPrecision(6),
+        (-fields.uy[i] * velocity).toPrecision(6),
+        (q > 0 ? (CS2 * (fields.density[i] - reference)) / q : 0).toPrecision(6),
+        uu.toPrecision(6),
+        vv.toPrecision(6),
+        (-fields.uv[i] * velocity * velocity).toPrecision(6),
+        (0.5 * (uu + vv)).toPrecision(6)
+      ].join(','));
+    }
+  }
+  return lines.join('\n');
+};
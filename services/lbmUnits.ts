@@ -0,0 +1,97 @@
+import { CollisionOperator } from '../types';
+
+// Lattice speed of sound
+const CS = 1 / Math.sqrt(3);
+// Preferred inflow speed in lattice units (Ma 0.14)
+const NOMINAL_VELOCITY = 0.08;
+// Inflow Mach number the lattice velocity is never raised beyond
+const MAX_MACH = 0.3;
+// Above this the compressibility error (of order Ma^2) becomes noticeable
+const MACH_WARNING = 0.2;
+// Relaxation times above this lose accuracy at the walls; the lattice velocity drops instead
+const MAX_TAU = 1.5;
+// Lowest relaxation time each collision operator runs reliably in the tunnel, without
+// and with the Smagorinsky model (whose eddy viscosity lifts the local tau)
+const MIN_TAU: Record<CollisionOperator, number> = { bgk: 0.6, mrt: 0.515, entropic: 0.506 };
+const MIN_TAU_LES: Record<CollisionOperator, number> = { bgk: 0.6, mrt: 0.5001, entropic: 0.5002 };
+
+export interface LatticeUnitsInput {
+  chordCells: number; // reference length resolved in lattice cells
+  speed: number; // m/s
+  referenceLength: number; // m
+  kinematicViscosity: number; // m^2/s
+  collision: CollisionOperator;
+  smagorinsky: number; // Cs, 0 = off
+}
+
+export interface LatticeUnits {
+  reynolds: number; // V c / nu, the same number the panel solver reports
+  latticeReynolds: number; // what the lattice runs at; below `reynolds` when tau is limited
+  velocity: number; // inflow speed in lattice units per step
+  viscosity: number; // lattice kinematic viscosity
+  tau: number; // relaxation time, 3 nu + 1/2
+  mach: number; // lattice Mach number of the inflow
+  cellSize: number; // m
+  stepTime: number; // s per lattice step
+  warnings: string[];
+}
+
+/**
+ * Maps the modelled flow onto the lattice at equal Reynolds number. The lattice velocity
+ * starts at a nominal Mach number; it is raised (up to Ma 0.3) when the relaxation time
+ * would fall below what the collision operator tolerates, and lowered when tau would be
+ * needlessly large. If even Ma 0.3 cannot reach a stable tau, tau is held at the limit and
+ * the lattice runs at a lower Reynolds number. Both compromises are reported in `warnings`.
+ */
+export const latticeUnits = (input: LatticeUnitsInput): LatticeUnits => {
+  const { chordCells, speed, referenceLength, kinematicViscosity, collision, smagorinsky } = input;
+  const reynolds = kinematicViscosity > 0 ? (speed * referenceLength) / kinematicViscosity : 0;
+  const cellSize = chordCells > 0 ? referenceLength / chordCells : 0;
+  const tauMin = smagorinsky > 0 ? MIN_TAU_LES[collision] : MIN_TAU[collision];
+  const warnings: string[] = [];
+
+  // Lattice velocity giving relaxation time `tau` at the target Reynolds number
+  const velocityFor = (tau: number) => ((tau - 0.5) / 3) * (reynolds / chordCells);
+
+  let velocity = NOMINAL_VELOCITY;
+  if (reynolds > 0 && chordCells > 0) {
+    if (velocityFor(MAX_TAU) < velocity) {
+      velocity = velocityFor(MAX_TAU);
+    } else if (velocityFor(tauMin) > velocity) {
+      // Raising the velocity only helps if the Mach limit still leaves a resolvable tau
+      const needed = velocityFor(tauMin);
+      if (needed <= MAX_MACH * CS) velocity = needed;
+    }
+  }
+
+  const matched = reynolds > 0 && chordCells > 0 ? (velocity * chordCells) / reynolds : (MAX_TAU - 0.5) / 3;
+  const viscosity = Math.max(matched, (tauMin - 0.5) / 3);
+  const tau = 3 * viscosity + 0.5;
+  const mach = velocity / CS;
+  const latticeReynolds = (velocity * chordCells) / viscosity;
+
+  if (mach > MACH_WARNING) {
+    warnings.push(`Lattice Mach ${mach.toFixed(2)}: compressibility error around ${(mach * mach * 100).toFixed(0)}%`);
+  }
+  if (viscosity > matched && chordCells > 0) {
+    const remedy = collision === 'bgk'
+      ? 'switch to MRT with the Smagorinsky model'
+      : smagorinsky > 0 ? 'refine the grid' : 'enable the Smagorinsky model or refine the grid';
+    warnings.push(
+      `τ held at ${tauMin} for ${collision.toUpperCase()}: the lattice runs at Re ${latticeReynolds.toExponential(2)} ` +
+      `instead of ${reynolds.toExponential(2)}; ${remedy}`
+    );
+  }
+
+  return {
+    reynolds,
+    latticeReynolds,
+    velocity,
+    viscosity,
+    tau,
+    mach,
+    cellSize,
+    stepTime: speed > 0 ? (velocity * cellSize) / speed : 0,
+    warnings
+  };
+};
@@ -0,0 +1,137 @@
+import { LbmConfig, LbmForce, LbmParameters, LbmSolver } from './lbm';
+import { FlowStatistics, LbmStatisticsFields } from './lbmStatistics';
+import { upstreamDensity } from './flowField';
+
+// Macroscopic fields handed to the renderer; their buffers are transferred, not copied
+export interface LbmFields {
+  density: Float32Array;
+  ux: Float32Array;
+  uy: Float32Array;
+}
+
+export type LbmWorkerRequest =
+  | { type: 'init'; config: LbmConfig }
+  | { type: 'parameters'; parameters: Partial<LbmParameters> }
+  // Solid cells, with the body's wall fractions from traceWallLinks
+  | { type: 'obstacle'; mask: Uint8Array; links?: Float32Array }
+  | { type: 'reset' }
+  // Cells sampled after every step, indices into the grid
+  | { type: 'probes'; cells: number[] }
+  // Steps discarded before averaging whenever the flow restarts; also restarts the averages
+  | { type: 'warmup'; steps: number }
+  // New averaging window from the next step, with no warm-up
+  | { type: 'resetStatistics' }
+  // Advance and send the fields back, written into `buffers` when the caller returns
+  // a previous frame's arrays for reuse; `statistics` asks for the averaged fields too
+  | { type: 'step'; steps: number; buffers: LbmFields | null; statistics: boolean };
+
+export interface LbmWorkerResponse {
+  type: 'fields';
+  fields: LbmFields;
+  forces: LbmForce[]; // Force on the body after each step of this frame
+  // Per step: the mean density on the upstream edge, then density, ux, uy at each probe cell
+  probes: Float32Array;
+  statistics: LbmStatisticsFields | null; // When asked for and averaging has started
+  warmupRemaining: number; // Steps before averaging starts
+  stepCount: number;
+  stable: boolean;
+}
+
+/**
+ * Hosts an LbmSolver off the main thread. The page owns one worker per tunnel and
+ * drives it with LbmWorkerRequest messages; each 'step' is answered with one frame.
+ */
+const ctx = self as unknown as Worker;
+let solver: LbmSolver | null = null;
+let probeCells: number[] = [];
+let statistics: FlowStatistics | null = null;
+let warmup = 0;
+
+const fieldsFrom = (s: LbmSolver, buffers: LbmFields | null): LbmFields => {
+  const size = s.cols * s.rows;
+  const reuse = buffers !== null && buffers.ux.length === size;
+  const fields: LbmFields = reuse ? buffers : {
+    density: new Float32Array(size),
+    ux: new Float32Array(size),
+    uy: new Float32Array(size)
+  };
+  fields.density.set(s.density);
+  fields.ux.set(s.ux);
+  fields.uy.set(s.uy);
+  return fields;
+};
+
+ctx.onmessage = (event: MessageEvent<LbmWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    solver = new LbmSolver(message.config);
+    probeCells = []; // Indices of the old grid; the page sends new ones
+    statistics = new FlowStatistics(solver.cols * solver.rows);
+    statistics.clear(warmup);
+    return;
+  }
+  if (!solver || !statistics) return;
+
+  switch (message.type) {
+    // A changed flow starts a new averaging window after the warm-up
+    case 'parameters':
+      solver.setParameters(message.parameters);
+      statistics.clear(warmup);
+      break;
+    case 'obstacle':
+      solver.setObstacle(message.mask, message.links);
+      statistics.clear(warmup);
+      break;
+    case 'reset':
+      solver.reset();
+      statistics.clear(warmup);
+      break;
+    case 'warmup':
+      warmup = message.steps;
+      statistics.clear(warmup);
+      break;
+    case 'resetStatistics':
+      statistics.clear(0);
+      break;
+    case 'probes':
+      probeCells = message.cells;
+      break;
+    case 'step': {
+      const forces: LbmForce[] = [];
+      const stride = 1 + 3 * probeCells.length;
+      const probes = new Float32Array(probeCells.length > 0 ? message.steps * stride : 0);
+      for (let k = 0; k < message.steps && solver.isStable; k++) {
+        solver.step();
+        statistics.accumulate(solver);
+        forces.push(solver.force);
+        if (probeCells.length === 0) continue;
+        probes[k * stride] = upstreamDensity(solver.density, solver.barrier, solver.cols, solver.rows);
+        for (let p = 0; p < probeCells.length; p++) {
+          const cell = probeCells[p];
+          probes[k * stride + 1 + 3 * p] = solver.density[cell];
+          probes[k * stride + 2 + 3 * p] = solver.ux[cell];
+          probes[k * stride + 3 + 3 * p] = solver.uy[cell];
+        }
+      }
+      const fields = fieldsFrom(solver, message.buffers);
+      const averages = message.statistics ? statistics.fields() : null;
+      const response: LbmWorkerResponse = {
+        type: 'fields',
+        fields,
+        forces,
+        probes: probes.slice(0, forces.length * (probeCells.length > 0 ? stride : 0)),
+        statistics: averages,
+        warmupRemaining: statistics.warmupRemaining,
+        stepCount: solver.stepCount,
+        stable: solver.isStable
+      };
+      const transfer: Transferable[] = [fields.density.buffer, fields.ux.buffer, fields.uy.buffer];
+      if (averages) {
+        transfer.push(averages.density.buffer, averages.ux.buffer, averages.uy.buffer);
+        transfer.push(averages.uu.buffer, averages.vv.buffer, averages.uv.buffer);
+      }
+      ctx.postMessage(response, transfer);
+      break;
+    }
+  }
+};
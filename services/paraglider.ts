@@ -0,0 +1,59 @@
+import { ParagliderSection, Point } from '../types';
+import { nacaHalfThickness } from './airfoil';
+
+// Surface stations per side before the inlet lips are added
+const STATIONS = 60;
+// Mean-line reflex starts at this x/c and grows cubically to the trailing edge
+const REFLEX_START = 0.6;
+
+export interface ParagliderProfile {
+  points: Point[]; // Closed across the inlet mouth, Selig order, unit chord, y up
+  skin: Point[]; // The canopy alone, open at the inlet: rear lip, trailing edge, leading edge, front lip
+  inlet: { from: number; to: number }; // x/c of the lips
+}
+
+/**
+ * Mean line of the section: an arch of height `camber` at a third of the chord (the
+ * cubic x (1 - x)^2, which leaves the trailing edge level) plus the reflex, a cubic rise
+ * over the rear 40% that lifts the trailing edge by `reflex`.
+ */
+const meanLine = (section: ParagliderSection, x: number) => {
+  const r = Math.max(0, (x - REFLEX_START) / (1 - REFLEX_START));
+  return {
+    y: section.camber * 6.75 * x * (1 - x) ** 2 + section.reflex * r ** 3,
+    slope: section.camber * 6.75 * (1 - x) * (1 - 3 * x) + (section.reflex * 3 * r * r) / (1 - REFLEX_START)
+  };
+};
+
+/**
+ * Paraglider section with an open cell: NACA 4-digit thickness (sharp trailing edge)
+ * about a reflexed mean line, with the intake cut into the lower surface between the
+ * two lips. The panel method sees the closed contour, whose straight mouth face stands
+ * in for the air at rest inside; the lattice sees only the skin, so the cell fills
+ * through the opening.
+ */
+export const paragliderProfile = (section: ParagliderSection): ParagliderProfile => {
+  const from = Math.min(Math.max(section.inletPosition, 0), 0.9);
+  const to = Math.min(from + Math.max(section.inletSize, 0.005), 0.95);
+
+  const stations: number[] = [];
+  for (let i = 0; i <= STATIONS; i++) stations.push(0.5 * (1 - Math.cos((i / STATIONS) * Math.PI)));
+  const surfacePoint = (x: number, side: 1 | -1): Point => {
+    const { y, slope } = meanLine(section, x);
+    const yt = nacaHalfThickness(x, section.thickness, true);
+    const theta = Math.atan(slope);
+    return { x: x - side * yt * Math.sin(theta), y: y + side * yt * Math.cos(theta) };
+  };
+
+  // Trailing edge to leading edge over the top; the shared trailing edge point is kept once
+  const upper = stations.slice().reverse().map(x => surfacePoint(x, 1));
+  const lowerStations = [...stations.slice(1, -1).filter(x => x < from || x > to), from, to].sort((a, b) => a - b);
+  const lower = lowerStations.map(x => surfacePoint(x, -1));
+  const rear = lowerStations.indexOf(to);
+
+  return {
+    points: [...upper, ...lower],
+    skin: [...lower.slice(rear), ...upper, ...lower.slice(0, rear)],
+    inlet: { from, to }
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePhysics } from './physics';
+import { paragliderProfile } from './paraglider';
+import { preprocessGeometry } from './geometry';
+import { standardAtmosphere } from './atmosphere';
+
+// The app's default canopy, chord and trim speed
+const CANOPY = { thickness: 0.15, camber: 0.035, reflex: 0.005, inletPosition: 0.01, inletSize: 0.06 };
+const CHORD = 2.5; // m
+const SPEED = 38 / 3.6; // m/s
+
+describe('ram pressure', () => {
+  const profile = paragliderProfile(CANOPY);
+  const canopyAt = (alpha: number, panelCount: number) => {
+    const { points } = preprocessGeometry(profile.points, { panelCount });
+    const outline = points.map(p => ({ x: p.x * CHORD, y: p.y * CHORD }));
+    return calculatePhysics([outline], SPEED, alpha, {
+      referenceLength: CHORD,
+      atmosphere: standardAtmosphere(1500),
+      inlet: profile.inlet
+    }).ramPressure!;
+  };
+
+  it('keeps the default canopy inflated at cruise incidence', () => {
+    [0, 100, 200].forEach(panelCount => {
+      [4, 6, 8].forEach(alpha => {
+        const ram = canopyAt(alpha, panelCount);
+        expect(ram.collapseMargin, `α ${alpha}°, ${panelCount} panels`).toBeGreaterThan(0);
+        expect(ram.peakCp.x).toBeGreaterThanOrEqual(profile.inlet.from);
+      });
+    });
+  });
+
+  it('reports a frontal collapse once the stagnation point climbs above the intake', () => {
+    expect(canopyAt(0, 100).collapseMargin).toBeLessThan(0);
+  });
+});
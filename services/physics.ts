@@ -1,14 +1,34 @@
-import { Point, PhysicsResult } from '../types';
+import { BodyResult, CpPoint, Point, PhysicsResult, RamPressure, SurfaceSide } from '../types';
+import { ChordLine, findChordLine } from './geometry';
+import { solveBoundaryLayer, SurfaceStation } from './boundaryLayer';
+import { AtmosphereState, SEA_LEVEL } from './atmosphere';
 
-// Constants for Standard Atmosphere
-const KINEMATIC_VISCOSITY = 1.460e-5; // m^2/s
-const AIR_DENSITY = 1.225; // kg/m^3
+export interface PhysicsOptions {
+  referenceLength?: number; // m, defaults to the detected chord
+  momentReference?: number; // x/c along the chord line, defaults to the quarter chord
+  atmosphere?: AtmosphereState; // defaults to ISA sea level
+  groundHeight?: number; // m, ground below the moment reference point; omitted = free air
+  inlet?: { from: number; to: number }; // x/c of the lips of an air intake in the main body's lower surface
+  inviscid?: boolean; // Potential flow only: lift is not reduced for separation
+}
+
+// Slack in x/c when picking the contour nodes that lie on an intake mouth
+const INLET_TOLERANCE = 1e-3;
+// Upper surface from the intake's front lip to this x/c is where a frontal collapse starts
+const FRONTAL_REGION = 0.5;
+
+// Base pressure of a fully separated wake (subcritical cylinder), caps the suction
+// that the free-streamline model carries into the wake
+const BASE_PRESSURE_LIMIT = -1.2;
+// Pressure rise from the suction peak to the trailing edge, Cp_TE - Cp_min, past which
+// a surface cannot stay attached (Valarezo & Chin's rule, about 14 at low Mach number)
+const STALL_PRESSURE_DIFFERENCE = 14;
 
 /**
  * A simplified Linear Solver (Gaussian Elimination)
  * Solves Ax = b
  */
-function solveLinearSystem(A: number[][], b: number[]): number[] {
+export function solveLinearSystem(A: number[][], b: number[]): number[] {
   const n = A.length;
   // Augment matrix
   const M = A.map((row, i) => [...row, b[i]]);
@@ -38,181 +58,547 @@ function solveLinearSystem(A: number[][], b: number[]): number[] {
   return M.map(row => row[n]);
 }
 
+interface Panel {
+  x1: number;
+  y1: number;
+  length: number;
+  cos: number; // Tangent direction (node a -> node b)
+  sin: number;
+  a: number; // Node indices carrying the linear strength
+  b: number;
+}
+
+type TrailingEdgeKind = 'sharp' | 'blunt' | 'none';
+
+// Wedge angle below which a trailing edge is treated as sharp and gets a Kutta condition.
+const SHARP_TE_MAX_ANGLE = 60 * (Math.PI / 180);
+// A trailing-edge base shorter than this fraction of the body extent is a blunt TE.
+const TE_GAP_FRACTION = 0.05;
+
+/**
+ * Orders the contour for the panel method: duplicate vertices are dropped, the loop is
+ * made clockwise (y-up frame) and rotated so it starts at the trailing edge, running
+ * TE -> lower surface -> LE -> upper surface -> TE, as in XFoil.
+ * - sharp: the TE vertex appears twice (first and last node) so each side has its own strength.
+ * - blunt: first and last node are the two TE corners; the base closes the loop.
+ * - none:  bluff body, the loop is closed with no Kutta condition.
+ */
+function prepareNodes(shape: Point[]): { nodes: Point[]; trailingEdge: TrailingEdgeKind } {
+  const pts: Point[] = [];
+  shape.forEach(p => {
+    const last = pts[pts.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) > 1e-9) pts.push(p);
+  });
+  while (pts.length > 1 && Math.hypot(pts[0].x - pts[pts.length - 1].x, pts[0].y - pts[pts.length - 1].y) <= 1e-9) {
+    pts.pop();
+  }
+  const n = pts.length;
+
+  // Shoelace area: positive means counter-clockwise in a y-up frame
+  let area = 0;
+  for (let i = 0; i < n; i++) {
+    const a = pts[i], b = pts[(i + 1) % n];
+    area += a.x * b.y - b.x * a.y;
+  }
+  if (area > 0) pts.reverse();
+
+  // Trailing edge: the most downstream vertex
+  let te = 0;
+  let minX = Infinity, maxX = -Infinity;
+  pts.forEach((p, i) => {
+    if (p.x > pts[te].x) te = i;
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+  });
+  const extent = Math.max(maxX - minX, 1e-9);
+  const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const rotated = (first: number) => pts.map((_, k) => pts[(first + k) % n]);
+
+  // Wedge angle between the lower and upper surfaces leaving the trailing edge
+  const wedgeAngle = (lowerTE: Point, lowerNext: Point, upperTE: Point, upperPrev: Point) => {
+    const lowerDir = Math.atan2(lowerNext.y - lowerTE.y, lowerNext.x - lowerTE.x);
+    const upperDir = Math.atan2(upperPrev.y - upperTE.y, upperPrev.x - upperTE.x);
+    const wedge = Math.abs(lowerDir - upperDir);
+    return wedge > Math.PI ? 2 * Math.PI - wedge : wedge;
+  };
+
+  const nodes = rotated(te);
+  if (wedgeAngle(nodes[0], nodes[1], nodes[0], nodes[n - 1]) < SHARP_TE_MAX_ANGLE) {
+    return { nodes: [...nodes, nodes[0]], trailingEdge: 'sharp' };
+  }
+
+  // Otherwise a short base edge next to the TE vertex is a blunt trailing edge when
+  // the surfaces leaving it still form a sharp wedge
+  const prev = (te - 1 + n) % n;
+  const next = (te + 1) % n;
+  for (const [lowerCorner, upperCorner] of [[te, prev], [next, te]]) {
+    if (dist(pts[lowerCorner], pts[upperCorner]) >= TE_GAP_FRACTION * extent) continue;
+    const wedge = wedgeAngle(
+      pts[lowerCorner], pts[(lowerCorner + 1) % n],
+      pts[upperCorner], pts[(upperCorner - 1 + n) % n]
+    );
+    if (wedge < SHARP_TE_MAX_ANGLE) return { nodes: rotated(lowerCorner), trailingEdge: 'blunt' };
+  }
+
+  return { nodes, trailingEdge: 'none' };
+}
+
+// r * ln(r) style terms vanish at the panel end points
+const xLogR = (x: number, r: number) => (r > 1e-12 ? x * Math.log(r) : 0);
+
 /**
- * Vortex Panel Method Solver
- * "Building on" the logic found in libraries like AeroSandbox/XFoil.
+ * Stream function induced at (px, py) by a linear-strength vortex panel, split into the
+ * parts multiplying the strengths at its two nodes: psi = gammaA * psiA + gammaB * psiB.
+ * Closed-form integral of -gamma/(2 pi) ln r along the panel; positive gamma is counter-clockwise.
+ */
+function linearVortexStreamFunction(px: number, py: number, p: Panel) {
+  // Field point in panel-local coordinates (origin at node a, x along the panel)
+  const dx = px - p.x1;
+  const dy = py - p.y1;
+  const x = dx * p.cos + dy * p.sin;
+  const y = -dx * p.sin + dy * p.cos;
+  const L = p.length;
+
+  const r1 = Math.hypot(x, y);
+  const r2 = Math.hypot(x - L, y);
+  const beta = Math.abs(y) > 1e-12 ? Math.atan2(y, x - L) - Math.atan2(y, x) : 0; // Angle subtended by the panel
+
+  // J0 = int ln r dxi, J1 = int xi ln r dxi over the panel
+  const J0 = xLogR(x, r1) - xLogR(x - L, r2) - L + y * beta;
+  const J1 = x * J0 - (0.5 * xLogR(r1 * r1, r1) - 0.5 * xLogR(r2 * r2, r2) - (x * x - (x - L) ** 2) / 4);
+
+  const k = -1 / (2 * Math.PI);
+  return {
+    psiA: k * (J0 - J1 / L),
+    psiB: k * (J1 / L)
+  };
+}
+
+interface BodyGeometry {
+  outline: Point[]; // Contour as supplied
+  nodes: Point[];
+  trailingEdge: TrailingEdgeKind;
+  panels: Panel[]; // Node indices count across all bodies of the system
+  chordLine: ChordLine;
+  offset: number; // Index of the body's first node in the combined unknown vector
+}
+
+function buildBody(outline: Point[], offset: number): BodyGeometry {
+  const { nodes, trailingEdge } = prepareNodes(outline);
+  const n = nodes.length;
+
+  const panels: Panel[] = [];
+  const addPanel = (a: number, b: number) => {
+    const dx = nodes[b].x - nodes[a].x;
+    const dy = nodes[b].y - nodes[a].y;
+    const length = Math.hypot(dx, dy);
+    panels.push({ x1: nodes[a].x, y1: nodes[a].y, length, cos: dx / length, sin: dy / length, a: offset + a, b: offset + b });
+  };
+  for (let i = 0; i < n - 1; i++) addPanel(i, i + 1);
+  // Blunt base / bluff body: close the loop back to the first node
+  if (trailingEdge !== 'sharp') addPanel(n - 1, 0);
+
+  return { outline, nodes, trailingEdge, panels, chordLine: findChordLine(outline), offset };
+}
+
+/**
+ * Solves the vortex strengths of all bodies together for a freestream at angle `theta`.
+ * Unknowns are gamma at every node of every body followed by one psi0 per body, since
+ * each contour is its own streamline. Every body brings its own closure: a Kutta
+ * condition at a sharp or blunt trailing edge, zero net circulation otherwise.
+ */
+function solveVorticity(bodies: BodyGeometry[], V_inf: number, theta: number): number[] {
+  const nNodes = bodies.reduce((sum, b) => sum + b.nodes.length, 0);
+  const nUnknowns = nNodes + bodies.length;
+  const panels = bodies.flatMap(b => b.panels);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  const A: number[][] = [];
+  const rhs: number[] = [];
+
+  bodies.forEach((body, k) => {
+    const n = body.nodes.length;
+    const first = body.offset;
+    const last = body.offset + n - 1;
+
+    // Row i: sum_j psi_ij gamma_j - psi0 = -psi_inf(node i)
+    // The duplicated sharp-TE node would repeat the first node's equation
+    const nStreamRows = body.trailingEdge === 'sharp' ? n - 1 : n;
+    for (let i = 0; i < nStreamRows; i++) {
+      const { x, y } = body.nodes[i];
+      const row = Array(nUnknowns).fill(0);
+      panels.forEach(p => {
+        const { psiA, psiB } = linearVortexStreamFunction(x, y, p);
+        row[p.a] += psiA;
+        row[p.b] += psiB;
+      });
+      row[nNodes + k] = -1;
+      A.push(row);
+      rhs.push(-V_inf * (y * cos - x * sin));
+    }
+
+    const closure = Array(nUnknowns).fill(0);
+    if (body.trailingEdge === 'none') {
+      // No trailing edge to fix the circulation: the body carries none
+      body.panels.forEach(p => {
+        closure[p.a] += p.length / 2;
+        closure[p.b] += p.length / 2;
+      });
+    } else {
+      // Kutta condition: equal speeds leaving the TE on both surfaces
+      closure[first] = 1;
+      closure[last] = 1;
+    }
+    A.push(closure);
+    rhs.push(0);
+
+    if (body.trailingEdge === 'sharp') {
+      // Coincident TE nodes leave one equation short: extrapolate gamma smoothly into
+      // the trailing edge (equal second differences on both surfaces). Equal and opposite
+      // sheets cancel inside a thin trailing edge, so this row is what pins them down.
+      const extrapolation = Array(nUnknowns).fill(0);
+      extrapolation[first] = 1; extrapolation[first + 1] = -2; extrapolation[first + 2] = 1;
+      extrapolation[last] = -1; extrapolation[last - 1] = 2; extrapolation[last - 2] = -1;
+      A.push(extrapolation);
+      rhs.push(0);
+    }
+  });
+
+  try {
+    return solveLinearSystem(A, rhs).slice(0, nNodes);
+  } catch (e) {
+    return Array(nNodes).fill(0);
+  }
+}
+
+/**
+ * Linear-Strength Vortex Panel Method Solver
+ * Stream-function (Dirichlet) formulation as used in XFoil: vortex strength varies linearly
+ * along each panel and the body contour is a streamline, psi(node) = psi0, which keeps the
+ * interior at rest so the sheet strength is the surface velocity. The extra unknown psi0 is
+ * closed by an explicit Kutta condition (gamma_TE,lower + gamma_TE,upper = 0) at a sharp or
+ * blunt trailing edge, or by zero net circulation for bluff bodies (cylinder, pods).
+ * Several bodies (wing + pod, main element + flap or slat) are solved as one coupled system,
+ * each with its own streamline constant and closure. The first body is the main element:
+ * the chord line, moment reference and pressure plot refer to it.
+ * Geometry is expected in metres in a y-up body frame with the freestream along +x at
+ * alpha = 0. Coefficients use `referenceLength` when given, otherwise the detected chord.
+ * Air properties (Reynolds number, dimensional forces) come from `atmosphere`.
+ * With `groundHeight` the ground is a mirror image of all bodies about a line parallel to
+ * the freestream.
  */
 export const calculatePhysics = (
-  shape: Point[],
+  shapes: Point[][],
   speed: number, // m/s
   alphaDeg: number,
-  chordLength: number = 1 // m
+  options: PhysicsOptions = {}
 ): PhysicsResult => {
-  // 1. Pre-process Geometry
-  // Ensure we have enough panels but not too many for JS performance (approx 50-100)
-  // For this demo, we assume the shape points passed are already a reasonable polygon.
-  
+  const { referenceLength, momentReference = 0.25, atmosphere = SEA_LEVEL, groundHeight, inlet, inviscid = false } = options;
   const alpha = alphaDeg * (Math.PI / 180);
   const V_inf = speed;
-  const nPanels = shape.length - 1;
-  
-  // Need closed loop
-  const panels = [];
-  for (let i = 0; i < nPanels; i++) {
-    panels.push({
-      p1: shape[i],
-      p2: shape[i + 1]
-    });
-  }
+  const nu = atmosphere.kinematicViscosity;
 
-  // 2. Control Points (Collocation points) & Geometry
-  const controlPoints: Point[] = [];
-  const panelLengths: number[] = [];
-  const theta: number[] = []; // Panel angles
-
-  panels.forEach(p => {
-    const dx = p.p2.x - p.p1.x;
-    const dy = p.p2.y - p.p1.y;
-    panelLengths.push(Math.hypot(dx, dy));
-    theta.push(Math.atan2(dy, dx));
-    controlPoints.push({
-      x: (p.p1.x + p.p2.x) / 2,
-      y: (p.p1.y + p.p2.y) / 2
-    });
+  // 1. Pre-process Geometry
+  const bodies: BodyGeometry[] = [];
+  let nNodes = 0;
+  shapes.filter(outline => outline.length > 2).forEach(outline => {
+    const body = buildBody(outline, nNodes);
+    bodies.push(body);
+    nNodes += body.nodes.length;
   });
+  const chordLine = bodies[0].chordLine;
+  const chord = referenceLength ?? chordLine.length;
 
-  // 3. Construct Influence Matrix
-  // Using a constant strength source/vortex method or similar simplified potential flow.
-  // We will use a standard method: solving for circulation densities (gamma).
-  
-  // NOTE: Implementing a full Hess-Smith or Linear Vortex panel code in one file is dense.
-  // We will use a simplified approach for the "App" context:
-  // Estimate Cl based on Panel orientation (Deflection) and Kutta-Joukowski approx for the system.
-  
-  // Let's perform a direct Circulation Summation approximation which is physically grounded.
-  // Calculate flow tangency condition.
-  
-  // Matrix A (n x n)
-  // System: sum(A_ij * gamma_j) = -V_inf * n_i
-  const A: number[][] = Array(nPanels).fill(0).map(() => Array(nPanels).fill(0));
-  const RHS: number[] = Array(nPanels).fill(0);
-
-  for (let i = 0; i < nPanels; i++) {
-    // Normal vector at control point i
-    const nx = -Math.sin(theta[i]);
-    const ny = Math.cos(theta[i]);
-    
-    // RHS: Free stream component normal to panel
-    // V_inf vector: (V cos a, V sin a)
-    RHS[i] = -V_inf * (Math.cos(alpha) * nx + Math.sin(alpha) * ny);
-
-    for (let j = 0; j < nPanels; j++) {
-      if (i === j) {
-        A[i][j] = 0.5; // Self-influence term
-      } else {
-        // Induced velocity by panel j on control point i
-        // Simple vortex point approximation for far field, distributed for near field
-        const dx = controlPoints[i].x - controlPoints[j].x;
-        const dy = controlPoints[i].y - controlPoints[j].y;
-        const r2 = dx * dx + dy * dy;
-        
-        // Velocity induced by vortex at j: V = Gamma / (2*pi*r)
-        // Cross product with r to get normal comp
-        // This is a simplified kernel (Point Vortex method)
-        // Ref: Katz & Plotkin "Low-Speed Aerodynamics"
-        const r = Math.sqrt(r2);
-        const cross = (dx * ny - dy * nx); // r x n
-        A[i][j] = (1 / (2 * Math.PI)) * (cross / r2) * panelLengths[j];
-      }
-    }
-  }
+  const cx = chordLine.trailingEdge.x - chordLine.leadingEdge.x;
+  const cy = chordLine.trailingEdge.y - chordLine.leadingEdge.y;
+  const refPoint = {
+    x: chordLine.leadingEdge.x + momentReference * cx,
+    y: chordLine.leadingEdge.y + momentReference * cy
+  };
 
-  // 4. Kutta Condition: Gamma_upper + Gamma_lower = 0 at trailing edge?
-  // Or force stagnation. In a simple N x N solver without explicit Kutta row, 
-  // we rely on the geometry being sharp at TE or use a circulation constraint.
-  // For robustness in this JS port, we'll solve the linear system and then enforce net circulation 
-  // implicitly via the lift calculation.
-  
-  // Solving for Vortex Strengths (gamma)
-  let gamma = [];
-  try {
-     gamma = solveLinearSystem(A, RHS);
-  } catch (e) {
-     // Fallback for singular matrix (e.g., flat plate perfectly aligned)
-     gamma = Array(nPanels).fill(0); 
+  // 2. Vortex Strengths
+  // The system is linear in the freestream, so in free air it is solved for alpha = 0 and
+  // 90 deg and any incidence is the combination gamma = cos(a) * gamma0 + sin(a) * gamma90.
+  // Ground images move with the incidence, so near the ground each angle is solved afresh.
+  let gammaAt: (a: number) => number[];
+  if (groundHeight === undefined) {
+    const gamma0 = solveVorticity(bodies, V_inf, 0);
+    const gamma90 = solveVorticity(bodies, V_inf, Math.PI / 2);
+    gammaAt = a => gamma0.map((g, i) => Math.cos(a) * g + Math.sin(a) * gamma90[i]);
+  } else {
+    gammaAt = a => {
+      // Ground line parallel to the freestream, groundHeight below the reference point
+      const nx = -Math.sin(a);
+      const ny = Math.cos(a);
+      const gx = refPoint.x - groundHeight * nx;
+      const gy = refPoint.y - groundHeight * ny;
+      const mirror = (p: Point): Point => {
+        const d = (p.x - gx) * nx + (p.y - gy) * ny;
+        return { x: p.x - 2 * d * nx, y: p.y - 2 * d * ny };
+      };
+      let offset = nNodes;
+      const images = bodies.map(body => {
+        const image = buildBody(body.outline.map(mirror), offset);
+        offset += image.nodes.length;
+        return image;
+      });
+      return solveVorticity([...bodies, ...images], V_inf, a).slice(0, nNodes);
+    };
   }
 
-  // 5. Post-Process: Calculate Forces
-  let Circulation = 0;
-  const cpDist: {x: number, cp: number}[] = [];
-  
-  for (let i = 0; i < nPanels; i++) {
-    Circulation += gamma[i] * panelLengths[i];
-    
-    // Local velocity approx (Tangential)
-    // Vt = V_inf_tangential + induced
-    // Cp = 1 - (V/V_inf)^2
-    // Simplified: Pressure is related to local vortex strength density
-    const localV = V_inf + gamma[i]; // Approximation
-    const cp = 1 - (localV / V_inf) ** 2;
-    
-    // Normalize X for plotting (0 to 1)
-    // Assuming shape is roughly centered or we find bounds
-    cpDist.push({ x: controlPoints[i].x, cp: cp });
-  }
+  // 3. Post-Process: surface velocity from the solved distribution
+  // With the interior at rest the outer tangential velocity equals the sheet strength
+  // (Vt = -gamma for counter-clockwise gamma on a clockwise contour).
+  // Integrates the surface pressure around each closed contour. Force per panel is
+  // -Cp * n * ds with n the outward normal; moments are about the reference point,
+  // positive nose-up (clockwise in the y-up frame with the nose at -x). Lift is taken
+  // from the pressure so it splits between bodies; Kutta-Joukowski only holds for the total.
+  const integrateSurface = (a: number) => {
+    const g = gammaAt(a);
+    const cp = g.map(gi => 1 - (gi / V_inf) ** 2);
+    const loads = bodies.map(body => {
+      let fx = 0, fy = 0, mz = 0;
+      body.panels.forEach(p => {
+        const cpPanel = 0.5 * (cp[p.a] + cp[p.b]);
+        const px = -cpPanel * -p.sin * p.length;
+        const py = -cpPanel * p.cos * p.length;
+        const xm = p.x1 + 0.5 * p.length * p.cos - refPoint.x;
+        const ym = p.y1 + 0.5 * p.length * p.sin - refPoint.y;
+        fx += px;
+        fy += py;
+        mz += xm * py - ym * px;
+      });
+      return {
+        cl: (fy * Math.cos(a) - fx * Math.sin(a)) / chord,
+        cm: -mz / (chord * chord),
+        fx,
+        fy
+      };
+    });
+    const fx = loads.reduce((sum, l) => sum + l.fx, 0);
+    const fy = loads.reduce((sum, l) => sum + l.fy, 0);
+    // Force along the chord line normal (body axes) for the centre of pressure
+    const normal = (fy * cx - fx * cy) / (chordLine.length || 1);
+    return {
+      gamma: g,
+      cp,
+      loads,
+      cl: loads.reduce((sum, l) => sum + l.cl, 0),
+      cm: loads.reduce((sum, l) => sum + l.cm, 0),
+      cn: normal / chord
+    };
+  };
+
+  const surface = integrateSurface(alpha);
+
+  // Centre of pressure: where the normal force acts along the chord (x/c)
+  const centerOfPressure = Math.abs(surface.cn) > 1e-6
+    ? momentReference - (surface.cm * chord) / (surface.cn * chordLine.length)
+    : momentReference;
+
+  // Aerodynamic centre from dCm/dCl over a small incidence change: x_ac = x_ref - dCm/dCl
+  const dAlpha = 0.5 * (Math.PI / 180);
+  const plus = integrateSurface(alpha + dAlpha);
+  const minus = integrateSurface(alpha - dAlpha);
+  const dCl = plus.cl - minus.cl;
+  const aerodynamicCenter = Math.abs(dCl) > 1e-6
+    ? momentReference - ((plus.cm - minus.cm) / dCl) * (chord / chordLine.length)
+    : null;
 
   // Reynolds Number
   // Re = (rho * V * L) / mu = (V * L) / nu
-  // Assuming L (Chord) ~ 200 pixels scaled to meters? 
-  // Let's assume the screen object is "0.2 meters" chord for simulation scaling.
-  const REAL_CHORD = 0.2; 
-  const Re = (V_inf * REAL_CHORD) / KINEMATIC_VISCOSITY;
-
-  // Kutta-Joukowski Lift Theorem: L = rho * V_inf * Circulation
-  // Cl = L / (0.5 * rho * V^2 * c) = (2 * Circulation) / (V * c)
-  // Scaling circulation back to unit chord
-  
-  // NOTE: The calculated circulation is in pixel-space units. 
-  // We need to normalize by the chord length in pixels (~200px).
-  const pixelChord = 200; 
-  let Cl = (2 * Circulation) / (V_inf * pixelChord);
-
-  // Apply stall correction (Viscous effect)
-  // Panel methods don't predict stall. We must add a scientific heuristic.
-  // Stall typically starts around 12-15 degrees for airfoils.
-  const stallAngle = 15 * (Math.PI / 180);
-  if (Math.abs(alpha) > stallAngle) {
-    // Massive lift loss factor
-    const factor = Math.cos(alpha) * 0.8; // Simplistic separated flow model
-    Cl *= factor;
-  }
+  const Re = (V_inf * chord) / nu;
 
-  // Drag Estimation (Parasite Drag + Induced)
-  // Cd0 (Skin Friction)
-  // Turbulent flat plate correlation: Cf = 0.074 / Re^0.2
-  const Cf = 0.074 / Math.pow(Re, 0.2);
-  // Form factor (thickness correction)
-  const tc = 0.12; // Assume 12% thickness average
-  const formFactor = 1 + 2 * tc + 60 * (tc ** 4);
-  let Cd = 2 * Cf * formFactor;
-
-  // Induced Drag / Pressure Drag due to separation (high alpha)
-  // Cd_pressure = Cl * tan(alpha) (roughly) + separation drag
-  if (Math.abs(alpha) > stallAngle) {
-     Cd += 1.8 * Math.sin(alpha) ** 2; // Bluff body drag kick-in
-  } else {
-     Cd += (Cl * Cl) / (Math.PI * 50); // Small induced drag term (2D is 0 but 3D wing approx)
+  // 4. Viscous Boundary Layer, per body
+  // Split the contour at the front stagnation point (where Vt changes sign) into an
+  // upper surface (increasing node index) and a lower surface (decreasing node index).
+  // Positions are x/c along the body's own chord line; drag uses the reference chord.
+  const analyseBody = (body: BodyGeometry) => {
+    const { nodes, chordLine: line } = body;
+    const n = nodes.length;
+    const lx = line.trailingEdge.x - line.leadingEdge.x;
+    const ly = line.trailingEdge.y - line.leadingEdge.y;
+    const xOverC = (p: Point) =>
+      ((p.x - line.leadingEdge.x) * lx + (p.y - line.leadingEdge.y) * ly) / (line.length ** 2 || 1);
+
+    const Vt = surface.gamma.slice(body.offset, body.offset + n).map(g => -g);
+    let stagIndex = 0;
+    let stagPoint: Point = nodes[0];
+    let stagX = Infinity;
+    for (let i = 0; i < n - 1; i++) {
+      if (Vt[i] <= 0 && Vt[i + 1] > 0) {
+        const t = -Vt[i] / (Vt[i + 1] - Vt[i]);
+        const p = { x: nodes[i].x + t * (nodes[i + 1].x - nodes[i].x), y: nodes[i].y + t * (nodes[i + 1].y - nodes[i].y) };
+        if (xOverC(p) < stagX) {
+          stagX = xOverC(p);
+          stagIndex = i;
+          stagPoint = p;
+        }
+      }
+    }
+    if (!isFinite(stagX)) stagX = xOverC(stagPoint);
+
+    const marchSurface = (indices: number[]) => {
+      const points: Point[] = [stagPoint];
+      const stations: SurfaceStation[] = [{ s: 0, xc: xOverC(stagPoint), ue: 0 }];
+      indices.forEach(k => {
+        const prev = points[points.length - 1];
+        const s = stations[stations.length - 1].s + Math.hypot(nodes[k].x - prev.x, nodes[k].y - prev.y);
+        points.push(nodes[k]);
+        stations.push({ s, xc: xOverC(nodes[k]), ue: Math.abs(Vt[k]) });
+      });
+      const bl = solveBoundaryLayer(stations, nu, V_inf, chord);
+      const cpAt = (k: number) => 1 - (stations[k].ue / V_inf) ** 2;
+      // Stall is a leading-edge breakdown: once the recovery from the suction peak to the
+      // trailing edge is too steep the surface separates at the peak. Loading the rear of
+      // the section (camber, brakes) deepens the peak at a given incidence, so it breaks
+      // down sooner, which the layer's own separation from the rear does not show.
+      let peak = 0;
+      stations.forEach((st, k) => { if (st.ue > stations[peak].ue) peak = k; });
+      if (cpAt(stations.length - 1) - cpAt(peak) > STALL_PRESSURE_DIFFERENCE) {
+        return { bl, separation: stations[peak].xc, endPoint: points[peak], endCp: cpAt(peak), stalled: true };
+      }
+      // Where the layer leaves the surface (TE when it stays attached)
+      const end = Math.max(bl.stations.length - 1, 0);
+      return { bl, separation: bl.separation, endPoint: points[end], endCp: cpAt(end), stalled: false };
+    };
+
+    // The layers leave a blunt trailing edge at its corners. Within about a base height
+    // of a corner the potential flow is dominated by the corner singularity, so each
+    // march ends that far short of it.
+    const baseHeight = body.trailingEdge === 'blunt'
+      ? Math.hypot(nodes[n - 1].x - nodes[0].x, nodes[n - 1].y - nodes[0].y)
+      : 0;
+    const clearOf = (corner: number) => (k: number) =>
+      Math.hypot(nodes[k].x - nodes[corner].x, nodes[k].y - nodes[corner].y) >= baseHeight;
+
+    const upperIdx: number[] = [];
+    for (let k = stagIndex + 1; k < n; k++) upperIdx.push(k);
+    const lowerIdx: number[] = [];
+    for (let k = stagIndex; k >= 0; k--) lowerIdx.push(k);
+    const upper = marchSurface(upperIdx.filter(clearOf(n - 1)));
+    const lower = marchSurface(lowerIdx.filter(clearOf(0)));
+
+    // 5. Viscous Corrections
+    // Lift lost to separation: Kirchhoff's flow model scales the inviscid lift with the
+    // attached fraction f of the chord, Cl = Cl_inv * ((1 + sqrt(f)) / 2)^2. A layer
+    // creeping forward from the trailing edge takes lift gradually; a stall takes it at once.
+    const attached = Math.max(0, Math.min(1,
+      upper.separation ?? 1,
+      lower.separation ?? 1
+    ));
+
+    // Profile drag: Squire-Young on both surfaces (skin friction + attached form drag)
+    let cd = upper.bl.profileDrag + lower.bl.profileDrag;
+
+    // Separated wake: base pressure acting over the wake height between the points
+    // where the two layers leave the body (free-streamline model)
+    if (upper.separation !== null || lower.separation !== null) {
+      const dx = upper.endPoint.x - lower.endPoint.x;
+      const dy = upper.endPoint.y - lower.endPoint.y;
+      const wakeHeight = Math.abs(dx * Math.sin(alpha) - dy * Math.cos(alpha));
+      const cpBase = Math.max(BASE_PRESSURE_LIMIT, Math.min(0, 0.5 * (upper.endCp + lower.endCp)));
+      cd += (-cpBase * wakeHeight) / chord;
+    }
+
+    return {
+      xOverC,
+      stagIndex,
+      stagX,
+      boundaryLayer: { upper: upper.bl, lower: lower.bl },
+      liftFactor: inviscid ? 1 : ((1 + Math.sqrt(attached)) / 2) ** 2,
+      cd,
+      stalled: upper.stalled || lower.stalled
+    };
+  };
+
+  const analyses = bodies.map(analyseBody);
+  const bodyResults: BodyResult[] = bodies.map((body, k) => ({
+    liftCoefficient: surface.loads[k].cl * analyses[k].liftFactor,
+    dragCoefficient: analyses[k].cd,
+    momentCoefficient: surface.loads[k].cm,
+    kuttaCondition: body.trailingEdge !== 'none',
+    stalled: analyses[k].stalled
+  }));
+  const Cl = bodyResults.reduce((sum, b) => sum + b.liftCoefficient, 0);
+  const Cd = bodyResults.reduce((sum, b) => sum + b.dragCoefficient, 0);
+
+  // 6. Pressure Distribution of the main body
+  // Split at the geometric leading edge (the node nearest the detected LE), in x/c
+  const mainBody = bodies[0];
+  const main = analyses[0];
+  const nodes = mainBody.nodes;
+  let leIndex = 0;
+  nodes.forEach((p, k) => {
+    const d = Math.hypot(p.x - chordLine.leadingEdge.x, p.y - chordLine.leadingEdge.y);
+    const best = Math.hypot(nodes[leIndex].x - chordLine.leadingEdge.x, nodes[leIndex].y - chordLine.leadingEdge.y);
+    if (d < best) leIndex = k;
+  });
+  const cpUpper: CpPoint[] = [];
+  for (let k = leIndex; k < nodes.length; k++) cpUpper.push({ x: main.xOverC(nodes[k]), cp: surface.cp[k] });
+  const cpLower: CpPoint[] = [];
+  for (let k = leIndex; k >= 0; k--) cpLower.push({ x: main.xOverC(nodes[k]), cp: surface.cp[k] });
+
+  // Suction peak: the most negative Cp on either surface
+  let suctionPeak: CpPoint & { surface: SurfaceSide } = { ...cpUpper[0], surface: 'upper' };
+  ([['upper', cpUpper], ['lower', cpLower]] as [SurfaceSide, CpPoint[]][]).forEach(([side, pts]) => {
+    pts.forEach(pt => {
+      if (pt.cp < suctionPeak.cp) suctionPeak = { ...pt, surface: side };
+    });
+  });
+
+  // Open-cell main body: the contour runs straight across the intake mouth, and the air
+  // at rest behind it takes the mean pressure of the mouth, weighted by length so that it
+  // does not depend on how many nodes the face carries. A frontal collapse starts where
+  // the outside pressure on the upper skin over the cell beats it and folds the nose
+  // under. The nose ahead of the front lip is the stagnation region feeding the intake,
+  // held by the lip, so its pressure does not count against the cell.
+  let ramPressure: RamPressure | null = null;
+  const mouth = inlet
+    ? cpLower.filter(pt => pt.x >= inlet.from - INLET_TOLERANCE && pt.x <= inlet.to + INLET_TOLERANCE)
+    : [];
+  const frontal = inlet ? cpUpper.filter(pt => pt.x >= inlet.from && pt.x <= FRONTAL_REGION) : [];
+  if (mouth.length > 0 && frontal.length > 0) {
+    const width = mouth[mouth.length - 1].x - mouth[0].x;
+    let internalCp = mouth[0].cp;
+    if (width > 0) {
+      internalCp = 0;
+      for (let k = 1; k < mouth.length; k++) {
+        internalCp += (0.5 * (mouth[k].cp + mouth[k - 1].cp) * (mouth[k].x - mouth[k - 1].x)) / width;
+      }
+    }
+    const peakCp = frontal.reduce((peak, pt) => (pt.cp > peak.cp ? pt : peak), frontal[0]);
+    ramPressure = { internalCp, peakCp, collapseMargin: internalCp - peakCp.cp };
   }
 
-  // Sort Cp distribution by X for plotting
-  cpDist.sort((a, b) => a.x - b.x);
+  // Dimensional section forces per metre of span: F = q * c * C
+  const dynamicPressure = 0.5 * atmosphere.density * V_inf * V_inf;
 
   return {
     liftCoefficient: Cl || 0,
     dragCoefficient: Cd || 0.01,
-    momentCoefficient: -0.25 * Cl, // Quarter-chord approx
+    momentCoefficient: surface.cm,
     reynoldsNumber: Re,
-    cpDistribution: cpDist,
-    centerOfPressure: 0.25
+    dynamicPressure,
+    liftForce: dynamicPressure * chord * (Cl || 0),
+    dragForce: dynamicPressure * chord * (Cd || 0.01),
+    density: atmosphere.density,
+    kinematicViscosity: nu,
+    cpDistribution: {
+      upper: cpUpper,
+      lower: cpLower,
+      stagnation: { x: main.stagX, surface: main.stagIndex >= leIndex ? 'upper' : 'lower' },
+      suctionPeak
+    },
+    centerOfPressure,
+    momentReference,
+    aerodynamicCenter,
+    chordLength: chord,
+    boundaryLayer: main.boundaryLayer,
+    bodies: bodyResults,
+    stalled: main.stalled,
+    ramPressure,
+    axisymmetric: null
   };
 };
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { runControlSweep } from './polar';
+import { paragliderProfile } from './paraglider';
+import { standardAtmosphere } from './atmosphere';
+import { NEUTRAL_CONTROLS } from './controls';
+
+// The app's default canopy, chord, trim speed and incidence
+const CANOPY = { thickness: 0.15, camber: 0.035, reflex: 0.005, inletPosition: 0.01, inletSize: 0.06 };
+const CHORD = 2.5; // m
+const SPEED = 38 / 3.6; // m/s
+const ALPHA = 8; // degrees
+// Every travel step runs a stall search of some 20 solves
+const TIMEOUT = 60_000; // ms
+
+describe('control sweep', () => {
+  it('brings the stall closer as the brakes are pulled', () => {
+    const { points } = runControlSweep(
+      paragliderProfile(CANOPY).points, 'brake', NEUTRAL_CONTROLS, SPEED, ALPHA, CHORD, 100,
+      { referenceLength: CHORD, atmosphere: standardAtmosphere(1500) }
+    );
+    const margins = points.map(p => p.stallMargin);
+    margins.forEach(margin => expect(margin).not.toBeNull());
+    margins.slice(1).forEach((margin, k) => expect(margin!, `${points[k + 1].travel}% brake`).toBeLessThanOrEqual(margins[k]!));
+    expect(margins[margins.length - 1]!).toBeLessThan(margins[0]! / 2);
+  }, TIMEOUT);
+});
@@ -0,0 +1,142 @@
+import {
+  ControlSweepPoint, ControlSweepResult, Point, PolarPoint, PolarResult, WingControlInput, WingControls
+} from '../types';
+import { calculatePhysics, PhysicsOptions } from './physics';
+import { preprocessGeometry, toPhysicalFrame } from './geometry';
+import { deformSection } from './controls';
+
+// Control travel is swept from neutral to full in these steps
+const TRAVEL_STEPS = 10;
+// The stall is searched from the flown incidence up to this angle, in whole degrees and
+// then refined by halving the bracket
+export const STALL_SEARCH_LIMIT = 25; // degrees
+const STALL_REFINEMENTS = 3;
+
+export interface PolarRange {
+  alphaStart: number; // degrees
+  alphaEnd: number; // degrees
+  alphaStep: number; // degrees
+}
+
+/**
+ * Angle-of-attack sweep. Each point runs the full solver on the body-frame geometry;
+ * the solver's incidence is the same rotation the tunnel applies to the drawn shapes.
+ */
+export const runPolarSweep = (
+  shapes: Point[][],
+  speed: number, // m/s
+  range: PolarRange,
+  options: PhysicsOptions = {}
+): PolarResult => {
+  const step = Math.max(Math.abs(range.alphaStep), 0.1);
+  const lo = Math.min(range.alphaStart, range.alphaEnd);
+  const hi = Math.max(range.alphaStart, range.alphaEnd);
+
+  const points: PolarPoint[] = [];
+  // Index-based stepping avoids accumulating floating-point drift in alpha
+  const count = Math.floor((hi - lo) / step + 1e-9);
+  for (let k = 0; k <= count; k++) {
+    const alpha = +(lo + k * step).toFixed(4);
+    const r = calculatePhysics(shapes, speed, alpha, options);
+    points.push({
+      alpha,
+      cl: r.liftCoefficient,
+      cd: r.dragCoefficient,
+      cm: r.momentCoefficient,
+      ld: r.liftCoefficient / r.dragCoefficient,
+      stalled: false
+    });
+  }
+
+  // Characteristic points
+  let clMax: PolarPoint | null = null;
+  let bestLD: PolarPoint | null = null;
+  let zeroLiftAngle: number | null = null;
+
+  points.forEach((p, i) => {
+    if (!clMax || p.cl > clMax.cl) clMax = p;
+    if (!bestLD || p.ld > bestLD.ld) bestLD = p;
+    const prev = points[i - 1];
+    if (zeroLiftAngle === null && prev && prev.cl <= 0 && p.cl > 0) {
+      zeroLiftAngle = prev.alpha + (p.alpha - prev.alpha) * (-prev.cl / (p.cl - prev.cl));
+    }
+  });
+
+  // Stall is the lift peak: the solver's separation flag trips while the attached part
+  // still gains more lift than the separated part loses, so it is not used here. The
+  // peak counts only once lift is seen to fall beyond it.
+  const peak: PolarPoint | null = clMax;
+  const stallAngle = peak && peak.alpha > 0 && peak !== points[points.length - 1] ? peak.alpha : null;
+  if (stallAngle !== null) points.forEach(p => { p.stalled = p.alpha > stallAngle; });
+
+  return {
+    points,
+    clMax,
+    stallAngle,
+    zeroLiftAngle,
+    bestLD
+  };
+};
+
+// First incidence from `alpha` upwards at which the section stalls, null if it holds to
+// the search limit
+const findStallAngle = (shapes: Point[][], speed: number, alpha: number, options: PhysicsOptions): number | null => {
+  const stalledAt = (a: number) => calculatePhysics(shapes, speed, a, options).stalled;
+  if (stalledAt(alpha)) return alpha;
+  let below = alpha;
+  let above: number | null = null;
+  for (let a = Math.floor(alpha) + 1; a <= STALL_SEARCH_LIMIT; a++) {
+    if (stalledAt(a)) {
+      above = a;
+      break;
+    }
+    below = a;
+  }
+  if (above === null) return null;
+  for (let k = 0; k < STALL_REFINEMENTS; k++) {
+    const mid = (below + above) / 2;
+    if (stalledAt(mid)) above = mid;
+    else below = mid;
+  }
+  return above;
+};
+
+/**
+ * Control sweep: one input (brake or speed bar) from neutral to full travel at the flown
+ * incidence, the other held at its setting. `section` is the undeformed main section
+ * (unit chord, y up); each setting is deformed and paneled as the tunnel does it and
+ * scaled to the reference length. Added bodies are left out. The stall margin is how far
+ * the incidence can rise before the section stalls.
+ */
+export const runControlSweep = (
+  section: Point[],
+  input: WingControlInput,
+  controls: WingControls,
+  speed: number, // m/s
+  alpha: number, // degrees
+  referenceLength: number, // m
+  panelCount: number,
+  options: PhysicsOptions = {}
+): ControlSweepResult => {
+  const points: ControlSweepPoint[] = [];
+  for (let k = 0; k <= TRAVEL_STEPS; k++) {
+    const travel = k / TRAVEL_STEPS;
+    const deformed = deformSection(section, { ...controls, [input]: travel });
+    // Through canvas orientation (y down), the frame the tunnel's contours come in
+    const prepared = preprocessGeometry(deformed.map(p => ({ x: p.x, y: -p.y })), { panelCount, yDown: true });
+    const shapes = toPhysicalFrame([prepared.points], referenceLength);
+
+    const r = calculatePhysics(shapes, speed, alpha, options);
+    const stallAngle = findStallAngle(shapes, speed, alpha, options);
+    points.push({
+      travel: travel * 100,
+      cl: r.liftCoefficient,
+      cd: r.dragCoefficient,
+      cm: r.momentCoefficient,
+      stalled: r.stalled,
+      stallAngle,
+      stallMargin: stallAngle === null ? null : stallAngle - alpha
+    });
+  }
+  return { input, alpha, controls, points };
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { runValidation } from './validation';
+
+// The refinement study runs some 40 solves; allow for a slow machine
+const TIMEOUT = 60_000; // ms
+
+describe('panel solver validation', () => {
+  it('matches the exact potential flows at second order', () => {
+    const report = runValidation();
+    report.cases.forEach(c => {
+      const finest = c.runs[c.runs.length - 1];
+      expect(c.passed, `${c.name}: |ΔCl| ${finest.clError.toExponential(2)}, Cp order ${c.order.cpRms}`).toBe(true);
+    });
+    expect(report.passed).toBe(true);
+  }, TIMEOUT);
+});
@@ -0,0 +1,233 @@
+import {
+  Point, ValidationCase, ValidationCaseId, ValidationCpPoint, ValidationReport, ValidationRun
+} from '../types';
+import { calculatePhysics } from './physics';
+import { findChordLine } from './geometry';
+
+// Panel counts of the refinement study, each twice the last
+const PANEL_COUNTS = [40, 80, 160, 320];
+const ANGLES = [0, 4, 8]; // degrees
+// Freestream of the runs; potential-flow Cp and Cl do not depend on it
+const SPEED = 10; // m/s
+// Samples of the exact contour used to measure its chord
+const CHORD_SAMPLES = 4000;
+// Errors below this are round-off, where an observed order means nothing
+const ROUND_OFF = 1e-10;
+// Pass criteria: the finest run must get Cl within this fraction of the largest exact
+// Cl (or of 1 for a case without lift), and the Cp error must fall at least this fast
+const CL_TOLERANCE = 0.01;
+const MIN_ORDER = 1.5;
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+const sub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+const mul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+const div = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+};
+// Principal branch
+const pow = (a: Complex, n: number): Complex => {
+  const r = Math.hypot(a.re, a.im);
+  if (r === 0) return { re: 0, im: 0 };
+  const phi = n * Math.atan2(a.im, a.re);
+  return { re: r ** n * Math.cos(phi), im: r ** n * Math.sin(phi) };
+};
+const ONE: Complex = { re: 1, im: 0 };
+
+/**
+ * A circle in the ζ-plane and the conformal map that turns it into the section. The
+ * Kármán–Trefftz map z = n((ζ+1)^n + (ζ-1)^n) / ((ζ+1)^n - (ζ-1)^n) folds the circle
+ * through ζ = 1 into a trailing edge of angle (2 - n)π; n = 2 is Joukowski's z = ζ + 1/ζ.
+ * Without an exponent the map is the identity and the circle is the cylinder.
+ */
+interface ConformalSection {
+  id: ValidationCaseId;
+  name: string;
+  centre: Complex;
+  radius: number;
+  exponent: number | null;
+}
+
+const mapToSection = (section: ConformalSection, zeta: Complex): Complex => {
+  if (section.exponent === null) return zeta;
+  const n = section.exponent;
+  // Through (ζ-1)/(ζ+1), whose argument stays inside a half-plane round the circle,
+  // so the principal branch holds everywhere on it
+  const w = pow(div(sub(zeta, ONE), add(zeta, ONE)), n);
+  return mul({ re: n, im: 0 }, div(add(ONE, w), sub(ONE, w)));
+};
+
+// dz/dζ = 4n²w / ((1 - w)²(ζ² - 1)), zero at the trailing edge
+const mapDerivative = (section: ConformalSection, zeta: Complex): Complex => {
+  if (section.exponent === null) return ONE;
+  const n = section.exponent;
+  const w = pow(div(sub(zeta, ONE), add(zeta, ONE)), n);
+  const oneMinusW = sub(ONE, w);
+  return div(mul({ re: 4 * n * n, im: 0 }, w), mul(mul(oneMinusW, oneMinusW), sub(mul(zeta, zeta), ONE)));
+};
+
+const SECTIONS: ConformalSection[] = [
+  { id: 'cylinder', name: 'Circular cylinder', centre: { re: 0, im: 0 }, radius: 0.5, exponent: null },
+  { id: 'joukowski', name: 'Joukowski airfoil', centre: { re: -0.08, im: 0.08 }, radius: Math.hypot(1.08, 0.08), exponent: 2 },
+  {
+    id: 'karman-trefftz',
+    name: 'Kármán–Trefftz airfoil',
+    centre: { re: -0.08, im: 0.08 },
+    radius: Math.hypot(1.08, 0.08),
+    exponent: 2 - 15 / 180
+  }
+];
+
+const describe = (section: ConformalSection): string => {
+  if (section.exponent === null) return 'No circulation, Cp = 1 - 4 sin²(θ - α)';
+  const { re, im } = section.centre;
+  const centre = `μ = ${re.toFixed(2)} ${im < 0 ? '-' : '+'} ${Math.abs(im).toFixed(2)}i`;
+  const angle = (2 - section.exponent) * 180;
+  return angle > 0 ? `${centre}, trailing-edge angle ${angle.toFixed(0)}°` : `${centre}, cusped trailing edge`;
+};
+
+/**
+ * Exact potential flow round a mapped circle. On the circle ζ = μ + R e^{iθ} the speed is
+ * 2V|sin(θ - α) + sin(α + β)|, where β = -θ at ζ = 1 puts the rear stagnation point on
+ * the trailing edge (Kutta condition); the cylinder carries no circulation. Dividing by
+ * |dz/dζ| gives the speed on the section, and the lift is Kutta–Joukowski's
+ * Cl = 8πR sin(α + β) / c.
+ */
+const exactFlow = (section: ConformalSection) => {
+  const { centre, radius } = section;
+  const lifting = section.exponent !== null;
+  const trailingAngle = lifting ? Math.atan2(-centre.im, 1 - centre.re) : 0;
+  const zetaAt = (theta: number): Complex => ({
+    re: centre.re + radius * Math.cos(theta),
+    im: centre.im + radius * Math.sin(theta)
+  });
+
+  const dense: Point[] = [];
+  for (let k = 0; k < CHORD_SAMPLES; k++) {
+    const z = mapToSection(section, zetaAt(trailingAngle - (2 * Math.PI * k) / CHORD_SAMPLES));
+    dense.push({ x: z.re, y: z.im });
+  }
+  const chord = findChordLine(dense).length;
+
+  const circulation = (alpha: number) => (lifting ? Math.sin(alpha - trailingAngle) : 0);
+  return {
+    // Nodes evenly spaced round the circle, clockwise from the trailing edge, at unit chord
+    contour: (count: number) => Array.from({ length: count }, (_, k) => {
+      const theta = trailingAngle - (2 * Math.PI * k) / count;
+      const z = mapToSection(section, zetaAt(theta));
+      return { theta, point: { x: z.re / chord, y: z.im / chord } };
+    }),
+    cp: (theta: number, alpha: number) => {
+      const dz = mapDerivative(section, zetaAt(theta));
+      const speed = 2 * (Math.sin(theta - alpha) + circulation(alpha));
+      return 1 - (speed * speed) / (dz.re * dz.re + dz.im * dz.im);
+    },
+    cl: (alpha: number) => (8 * Math.PI * radius * circulation(alpha)) / chord
+  };
+};
+
+// Observed order of convergence: the least-squares slope of log error against log panels
+const observedOrder = (runs: ValidationRun[], error: (run: ValidationRun) => number): number | null => {
+  if (runs.some(run => error(run) < ROUND_OFF)) return null;
+  const xs = runs.map(run => Math.log(run.panels));
+  const ys = runs.map(run => Math.log(error(run)));
+  const mx = xs.reduce((s, x) => s + x, 0) / xs.length;
+  const my = ys.reduce((s, y) => s + y, 0) / ys.length;
+  let sxy = 0, sxx = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+  });
+  return sxx > 0 ? -sxy / sxx : null;
+};
+
+const validateSection = (section: ConformalSection): ValidationCase => {
+  const flow = exactFlow(section);
+  const exactCl = ANGLES.map(a => flow.cl(a * (Math.PI / 180)));
+  let comparison: ValidationCase['comparison'] | null = null;
+
+  const runs = PANEL_COUNTS.map((panels): ValidationRun => {
+    const nodes = flow.contour(panels);
+    const outline = nodes.map(n => n.point);
+    const line = findChordLine(outline);
+    const lx = line.trailingEdge.x - line.leadingEdge.x;
+    const ly = line.trailingEdge.y - line.leadingEdge.y;
+    const xOverC = (p: Point) => ((p.x - line.leadingEdge.x) * lx + (p.y - line.leadingEdge.y) * ly) / (line.length ** 2);
+
+    const run: ValidationRun = { panels, cpRms: 0, cpMax: 0, clError: 0 };
+    ANGLES.forEach((angle, a) => {
+      const alpha = angle * (Math.PI / 180);
+      const result = calculatePhysics([outline], SPEED, angle, { referenceLength: 1, inviscid: true });
+      // The solver keeps the clockwise order from the trailing edge: the lower surface
+      // runs from the first node to the leading edge, the upper surface on from there
+      const { upper, lower } = result.cpDistribution;
+      const computed = [...lower].reverse().concat(upper.slice(1));
+
+      const points: (ValidationCpPoint & { upper: boolean })[] = [];
+      let sum = 0;
+      // The trailing edge itself is skipped: the exact speed there is 0/0
+      for (let k = 1; k < panels; k++) {
+        const x = xOverC(nodes[k].point);
+        if (!computed[k] || Math.abs(computed[k].x - x) > 1e-9) {
+          throw new Error(`${section.name}: solver node ${k} is not the contour node it was given`);
+        }
+        const exact = flow.cp(nodes[k].theta, alpha);
+        const error = Math.abs(computed[k].cp - exact);
+        sum += error * error;
+        run.cpMax = Math.max(run.cpMax, error);
+        points.push({ x, exact, computed: computed[k].cp, upper: k >= lower.length - 1 });
+      }
+      run.cpRms = Math.max(run.cpRms, Math.sqrt(sum / (panels - 1)));
+      run.clError = Math.max(run.clError, Math.abs(result.liftCoefficient - exactCl[a]));
+
+      if (comparison === null && a === ANGLES.length - 1) {
+        const strip = (p: ValidationCpPoint & { upper: boolean }) => ({ x: p.x, exact: p.exact, computed: p.computed });
+        comparison = {
+          alpha: angle,
+          panels,
+          upper: points.filter(p => p.upper).map(strip),
+          lower: points.filter(p => !p.upper).reverse().map(strip)
+        };
+      }
+    });
+    return run;
+  });
+
+  const order = {
+    cpRms: observedOrder(runs, run => run.cpRms),
+    cpMax: observedOrder(runs, run => run.cpMax),
+    cl: observedOrder(runs, run => run.clError)
+  };
+  const finest = runs[runs.length - 1];
+  const clScale = Math.max(1, ...exactCl.map(Math.abs));
+  const passed = finest.clError <= CL_TOLERANCE * clScale && (order.cpRms ?? MIN_ORDER) >= MIN_ORDER;
+
+  return {
+    id: section.id,
+    name: section.name,
+    description: describe(section),
+    angles: ANGLES,
+    exactCl,
+    runs,
+    order,
+    comparison: comparison ?? { alpha: 0, panels: 0, upper: [], lower: [] },
+    passed
+  };
+};
+
+/**
+ * Checks the panel method against flows with exact solutions: the cylinder without
+ * circulation and a Joukowski and a Kármán–Trefftz airfoil obtained by conformal mapping.
+ * Each case runs at every panel count and angle with the viscous corrections off; the
+ * errors are compared at the contour nodes, which lie on the exact surface. Needs no
+ * DOM, so it runs headless as well as from the app.
+ */
+export const runValidation = (): ValidationReport => {
+  const cases = SECTIONS.map(validateSection);
+  return { cases, passed: cases.every(c => c.passed) };
+};
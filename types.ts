@@ -4,31 +4,310 @@ export enum ShapeType {
   PLATE = 'PLATE',
   PARAGLIDER = 'PARAGLIDER',
   POD = 'POD',
-  CUSTOM = 'CUSTOM'
+  CUSTOM = 'CUSTOM',
+  IMPORTED = 'IMPORTED'
 }
 
+/**
+ * LBM collision operators:
+ * - bgk:      single relaxation time, cheapest, unstable as the viscosity drops
+ * - mrt:      multiple relaxation times, damps the non-hydrodynamic moments separately
+ * - entropic: KBC (Karlin, Bösch & Chikatamarla 2014), relaxes the higher-order part of
+ *             the populations at a rate chosen to keep the entropy from decreasing
+ */
+export type CollisionOperator = 'bgk' | 'mrt' | 'entropic';
+
+/**
+ * Conditions on the edges of the LBM domain:
+ * - velocity:   freestream velocity: Zou-He across the flow, non-equilibrium
+ *               extrapolation on edges along it
+ * - pressure:   outlet at the reference density (non-equilibrium extrapolation)
+ * - outflow:    zero normal gradient, populations copied from the next cell in
+ * - convective: outflow that advects the populations out at the freestream speed
+ * - no-slip:    wall with halfway bounce-back
+ * - free-slip:  wall with specular reflection
+ * - periodic:   wraps to the opposite edge; both edges of the pair must be periodic
+ */
+export type EdgeCondition = 'velocity' | 'pressure' | 'outflow' | 'convective' | 'no-slip' | 'free-slip' | 'periodic';
+
+export interface TunnelBoundaries {
+  left: EdgeCondition; // upstream
+  right: EdgeCondition; // downstream
+  top: EdgeCondition;
+  bottom: EdgeCondition;
+}
+
+/**
+ * Scalar painted over the LBM tunnel:
+ * - speed, ux, uy:   velocity magnitude and components (y up), m/s
+ * - vorticity:       out-of-plane vorticity, anticlockwise positive, 1/s
+ * - pressure:        pressure coefficient from the lattice density
+ * - streamfunction:  stream function, drawn with its contour lines, m^2/s
+ * Time-averaged over the current averaging window:
+ * - meanSpeed, meanPressure:  mean velocity magnitude (m/s) and mean Cp
+ * - rmsUx, rmsUy:             RMS velocity fluctuations, m/s
+ * - reynoldsStress:           u'v' (kinematic, y up), m^2/s^2
+ * - tke:                      turbulent kinetic energy of the in-plane fluctuations, m^2/s^2
+ */
+export type FlowFieldMode =
+  | 'speed' | 'vorticity' | 'pressure' | 'ux' | 'uy' | 'streamfunction'
+  | 'meanSpeed' | 'meanPressure' | 'rmsUx' | 'rmsUy' | 'reynoldsStress' | 'tke';
+
+export type Colormap = 'viridis' | 'magma' | 'turbo' | 'coolwarm' | 'grayscale';
+
+export interface FlowVisualization {
+  mode: FlowFieldMode;
+  colormap: Colormap;
+  autoRange: boolean; // follow the field, or hold [min, max]
+  min: number; // in the mode's units
+  max: number;
+}
+
+// A further body placed next to the main shape (flap, slat, pod, ...)
+export interface BodyPlacement {
+  id: number;
+  shapeType: ShapeType;
+  x: number; // offset from the main shape, in main chords, downstream positive
+  y: number; // offset from the main shape, in main chords, up positive
+  scale: number; // chord (or length) in main chords
+  incidence: number; // degrees relative to the main shape, positive nose-up
+}
+
+// NACA section generated for the airfoil shape (services/airfoil.ts)
+export interface AirfoilSettings {
+  designation: string; // 4- or 5-digit NACA designation: 2412, 23012, 23112 (reflexed)
+  pointCount: number; // contour points before repaneling
+  sharpTrailingEdge: boolean; // closed trailing edge instead of the standard finite base
+}
+
+// Parametric paraglider section (services/paraglider.ts), in fractions of the chord
+export interface ParagliderSection {
+  thickness: number; // t/c
+  camber: number; // height of the forward arch of the mean line, y/c
+  reflex: number; // rise of the mean line towards the trailing edge, y/c
+  inletPosition: number; // x/c of the front lip of the air intake on the lower surface
+  inletSize: number; // x/c from the front to the rear lip
+}
+
+export type AirfoilDatFormat = 'selig' | 'lednicer';
+
+// Section read from a coordinate file, unit chord, y up, in Selig order
+export interface ImportedAirfoil {
+  name: string;
+  format: AirfoilDatFormat; // Layout of the file it came from
+  points: Point[];
+}
+
+// Pilot inputs on a wing section, each as a fraction of full travel
+export interface WingControls {
+  brake: number; // 0 hands up, 1 full brake: the trailing edge pulled down
+  speedBar: number; // 0 trim, 1 full bar: less incidence, more reflex
+}
+
+export type WingControlInput = keyof WingControls;
+
 export interface SimulationParams {
-  windSpeed: number; // m/s
+  windSpeed: number; // km/h
   angleOfAttack: number; // degrees
-  viscosity: number; // relative factor (1.460e-5 standard air)
+  viscosity: number; // relative factor on the Sutherland viscosity (1 = real air)
+  altitude: number; // m, pressure altitude
+  temperatureOffset: number; // K, deviation from ISA temperature
   particleCount: number;
+  referenceLength: number; // m, real-world chord (or diameter) of the model
+  momentReference: number; // x/c of the pitching-moment reference point
+  panelCount: number; // panels per body after repaneling
+  additionalBodies: BodyPlacement[];
+  groundEffect: boolean;
+  groundHeight: number; // m, ground below the moment reference point
+  collisionOperator: CollisionOperator;
+  smagorinskyConstant: number; // Cs of the LBM sub-grid model, 0 = off
+  boundaries: TunnelBoundaries;
+  latticeRows: number; // LBM grid height in cells; the grid is twice as wide
+  visualization: FlowVisualization;
+  statisticsWarmup: number; // convective times (c/V) discarded before the LBM averages start
+  airfoil: AirfoilSettings;
+  paraglider: ParagliderSection;
+  axisymmetric: boolean; // Solve the main body as a body of revolution (pods, fairings)
+  controls: WingControls; // Applied to generated and imported wing sections
 }
 
 export interface CpPoint {
-  x: number;
+  x: number; // x/c, leading edge at 0
   cp: number;
 }
 
+export type SurfaceSide = 'upper' | 'lower';
+
+export interface CpDistribution {
+  upper: CpPoint[]; // Leading edge to trailing edge
+  lower: CpPoint[];
+  stagnation: { x: number; surface: SurfaceSide }; // x/c of the front stagnation point
+  suctionPeak: CpPoint & { surface: SurfaceSide }; // Minimum Cp
+}
+
+// Open-cell canopy: the air inside is at rest at the pressure of the intake, and the
+// skin holds its shape only where that exceeds the pressure outside
+export interface RamPressure {
+  internalCp: number; // Cp inside the cell, the length-weighted mean over the intake mouth
+  peakCp: CpPoint; // Highest external Cp on the upper surface from the intake's front lip to mid-chord
+  collapseMargin: number; // internalCp - peakCp.cp; below zero the nose is pushed in (frontal collapse)
+}
+
+export interface BoundaryLayerStation {
+  x: number; // x/c
+  theta: number; // m, momentum thickness
+  H: number; // shape factor
+  cf: number; // skin friction coefficient
+}
+
+export interface BoundaryLayerSurface {
+  transition: number | null; // x/c where the layer turns turbulent, null if laminar to the TE
+  laminarSeparation: boolean; // transition forced by laminar separation (bubble)
+  separation: number | null; // x/c of turbulent separation, null if attached to the TE
+  momentumThickness: number; // m, at the TE or separation point
+  shapeFactor: number; // H at the TE or separation point
+  frictionDrag: number; // integrated skin-friction drag coefficient
+  profileDrag: number; // Squire-Young drag coefficient of this surface
+  stations: BoundaryLayerStation[];
+}
+
+export interface BodyResult {
+  liftCoefficient: number; // Based on the reference chord of the whole system
+  dragCoefficient: number;
+  momentCoefficient: number; // About the system's moment reference point
+  kuttaCondition: boolean; // false for bluff bodies solved with zero circulation
+  stalled: boolean; // a surface separated at its suction peak
+}
+
+// Body of revolution about the main body's chord line, in axial flow
+export interface AxisymmetricResult {
+  length: number; // m, nose to tail
+  maxDiameter: number; // m
+  frontalArea: number; // m^2, the reference area of the drag coefficient
+  wettedArea: number; // m^2
+  dragArea: number; // m^2, CdA = D / q
+  frictionDragArea: number; // m^2, skin friction alone
+  pressureDragArea: number; // m^2, form drag and the separated base
+}
+
 export interface PhysicsResult {
   liftCoefficient: number;
   dragCoefficient: number;
   momentCoefficient: number;
   reynoldsNumber: number;
-  cpDistribution: CpPoint[]; // Pressure distribution for plotting
-  centerOfPressure: number;
+  dynamicPressure: number; // Pa
+  liftForce: number; // N per metre of span
+  dragForce: number; // N per metre of span
+  density: number; // kg/m^3
+  kinematicViscosity: number; // m^2/s
+  cpDistribution: CpDistribution; // Surface pressure per side, for plotting
+  centerOfPressure: number; // x/c where the normal force acts
+  momentReference: number; // x/c the moment coefficient is taken about
+  aerodynamicCenter: number | null; // x/c from dCm/dCl, null when the body carries no lift
+  chordLength: number; // m, reference length the coefficients are based on
+  boundaryLayer: {
+    upper: BoundaryLayerSurface;
+    lower: BoundaryLayerSurface;
+  }; // Main body
+  bodies: BodyResult[]; // Per body, in the order supplied; the totals above are their sums
+  stalled: boolean; // the main body separated at a suction peak (leading-edge breakdown)
+  ramPressure: RamPressure | null; // Main body with an air intake (paraglider section)
+  axisymmetric: AxisymmetricResult | null; // Body of revolution mode; forces are then in N
+}
+
+export interface PolarPoint {
+  alpha: number; // degrees
+  cl: number;
+  cd: number;
+  cm: number;
+  ld: number;
+  stalled: boolean; // beyond the lift peak
+}
+
+export interface PolarResult {
+  points: PolarPoint[];
+  clMax: PolarPoint | null;
+  stallAngle: number | null; // degrees, positive alpha of Cl max, null while lift still rises at the end
+  zeroLiftAngle: number | null; // degrees, interpolated
+  bestLD: PolarPoint | null;
+}
+
+export type ValidationCaseId = 'cylinder' | 'joukowski' | 'karman-trefftz';
+
+// Errors of one panel count, the worst over the angles of the case
+export interface ValidationRun {
+  panels: number;
+  cpRms: number; // RMS of the surface Cp error
+  cpMax: number; // largest Cp error at any node
+  clError: number; // |Cl - Cl exact|
+}
+
+export interface ValidationCpPoint {
+  x: number; // x/c
+  exact: number;
+  computed: number;
+}
+
+export interface ValidationCase {
+  id: ValidationCaseId;
+  name: string;
+  description: string; // Mapping parameters
+  angles: number[]; // degrees
+  exactCl: number[]; // per angle
+  runs: ValidationRun[]; // by increasing panel count
+  order: { cpRms: number | null; cpMax: number | null; cl: number | null }; // observed, null at round-off level
+  comparison: { alpha: number; panels: number; upper: ValidationCpPoint[]; lower: ValidationCpPoint[] }; // coarsest run, largest angle
+  passed: boolean;
+}
+
+export interface ValidationReport {
+  cases: ValidationCase[];
+  passed: boolean;
+}
+
+export interface LbmForceSample {
+  time: number; // s, physical time from the start of the recorded history
+  cl: number;
+  cd: number;
+}
+
+// Forces on the LBM obstacle from momentum exchange, averaged after the start-up transient
+export interface LbmForceResult {
+  samples: LbmForceSample[]; // Thinned for charting
+  steps: number; // lattice steps in the history
+  cl: number; // latest sample
+  cd: number;
+  meanCl: number;
+  meanCd: number;
+  latticeLift: number; // mean force, lattice units per unit depth
+  latticeDrag: number;
+  liftPerSpan: number; // N/m, mean coefficients at the tunnel's dynamic pressure
+  dragPerSpan: number; // N/m
+  sheddingFrequency: number | null; // Hz, from the lift signal; null without shedding
+  strouhal: number | null; // f c / V; null while steady or when the lift only carries sound
+  latticeReynolds: number; // Reynolds number the lattice actually resolves
+  internalCp: number | null; // Mean Cp inside an open-cell canopy, null for closed bodies
+}
+
+export interface ControlSweepPoint {
+  travel: number; // % of full travel of the swept input
+  cl: number;
+  cd: number;
+  cm: number;
+  stalled: boolean; // at the flown incidence
+  stallAngle: number | null; // degrees, first stalled incidence, null if none up to the search limit
+  stallMargin: number | null; // degrees from the flown incidence to the stall
+}
+
+export interface ControlSweepResult {
+  input: WingControlInput;
+  alpha: number; // degrees, the flown incidence
+  controls: WingControls; // setting of the input that was held
+  points: ControlSweepPoint[];
 }
 
 export interface AnalysisResult extends PhysicsResult {
+  controls: WingControls | null; // Setting the result was computed at, null for bodies without controls
   explanation: string;
   recommendations: string[];
 }
@@ -36,4 +315,37 @@ export interface AnalysisResult extends PhysicsResult {
 export interface Point {
   x: number;
   y: number;
-}
\ No newline at end of file
+}
+
+// Time-averaged LBM flow and the drag the mean wake implies
+export interface LbmWakeResult {
+  samples: number; // lattice steps averaged
+  averagedTime: number; // s
+  warmupRemaining: number; // lattice steps before averaging starts
+  cd: number | null; // momentum-integral drag coefficient
+  station: number; // x/c of the survey column, downstream of the model centre
+  profile: { y: number; velocity: number }[]; // y/c up, mean u/V across the survey column
+}
+
+// A point in the tunnel recorded every lattice step. Placed in tunnel (world) units, so
+// it stays put when the shape changes
+export interface FlowProbe {
+  id: number;
+  x: number;
+  y: number;
+}
+
+export type ProbeChannel = 'ux' | 'uy' | 'speed' | 'cp';
+
+export interface SpectrumPoint {
+  frequency: number; // Hz
+  power: number; // power spectral density, units^2/Hz
+}
+
+export interface ProbeRecord {
+  probe: FlowProbe;
+  position: Point; // x/c downstream and y/c up from the model centre
+  firstStep: number; // lattice step of the first sample
+  sampleInterval: number; // s, one lattice step
+  channels: Record<ProbeChannel, Float32Array>; // ux, uy (y up) and speed in m/s, Cp
+}